@@ -0,0 +1,71 @@
+import { PoolClient } from 'pg';
+import { TenantDeletedHandler } from './tenantDeletedHandler';
+import { BlobStorageAdapter, MessageMetadata } from '../types';
+
+jest.mock('../services/loggerService');
+
+const metadata: MessageMetadata = { routingKey: 'tenant.deleted', headers: {}, attempt: 1 };
+
+describe('TenantDeletedHandler', () => {
+  let queries: string[];
+  let storage: { put: jest.Mock; get: jest.Mock; delete: jest.Mock };
+  let handler: TenantDeletedHandler;
+
+  const client = {
+    query: async (text: string, params: unknown[]) => {
+      expect(params).toEqual(['tenant-1']);
+      queries.push(text);
+      if (text.startsWith('SELECT uri FROM attachments')) {
+        return { rows: [{ uri: 'blob://a' }, { uri: 'blob://b' }] };
+      }
+      return { rows: [], rowCount: 2 };
+    }
+  } as unknown as PoolClient;
+
+  beforeEach(() => {
+    queries = [];
+    storage = { put: jest.fn(), get: jest.fn(), delete: jest.fn().mockResolvedValue(undefined) };
+    handler = new TenantDeletedHandler(storage as BlobStorageAdapter);
+  });
+
+  it('purges every tenant table, children before work items', async () => {
+    await handler.handle(client, { tenant_id: 'tenant-1' }, metadata);
+
+    const tables = queries.slice(1).map(text => text.match(/DELETE FROM (\w+)/)?.[1]);
+    expect(tables).toEqual([
+      'dependency_edges',
+      'lineage_edges',
+      'comments',
+      'attachments',
+      'work_item_changes',
+      'work_items',
+      'event_outbox',
+      'service_api_keys'
+    ]);
+  });
+
+  it('deletes blobs only when the returned post-commit work runs', async () => {
+    const afterCommit = await handler.handle(client, { data: { tenant_id: 'tenant-1' } }, metadata);
+
+    expect(storage.delete).not.toHaveBeenCalled();
+
+    await afterCommit();
+
+    expect(storage.delete.mock.calls).toEqual([['blob://a'], ['blob://b']]);
+  });
+
+  it('keeps deleting blobs when one fails', async () => {
+    storage.delete.mockRejectedValueOnce(new Error('gone'));
+
+    const afterCommit = await handler.handle(client, { tenant_id: 'tenant-1' }, metadata);
+    await expect(afterCommit()).resolves.toBeUndefined();
+
+    expect(storage.delete).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects events without a tenant', async () => {
+    await expect(handler.handle(client, { type: 'tenant.renamed' }, metadata))
+      .rejects.toThrow('INVALID_EVENT: tenant.deleted requires tenant_id');
+    expect(queries).toEqual([]);
+  });
+});
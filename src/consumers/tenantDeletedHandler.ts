@@ -0,0 +1,80 @@
+// Handler for tenant.deleted events from the Tenant Service
+
+import { PoolClient } from 'pg';
+import { LoggerService } from '../services/loggerService';
+import { AfterCommit, BlobStorageAdapter, EventHandler, MessageMetadata } from '../types';
+
+// Older publishers nest the tenant under `data`
+interface TenantDeletedEvent {
+  tenant_id?: string;
+  data?: { tenant_id?: string };
+}
+
+/**
+ * Purge every row this service holds for a deleted tenant. Attachment blobs
+ * are removed after the purge commits, best-effort; a failure is logged rather
+ * than retried because the metadata pointing at them is already gone.
+ */
+export class TenantDeletedHandler implements EventHandler {
+  readonly name = 'tenant-deleted';
+  readonly exchange = process.env.TENANT_EVENTS_EXCHANGE || 'tenants';
+  readonly routingKey = 'tenant.deleted';
+
+  private storage: BlobStorageAdapter;
+  private logger: LoggerService;
+
+  constructor(storage: BlobStorageAdapter) {
+    this.storage = storage;
+    this.logger = new LoggerService();
+  }
+
+  async handle(client: PoolClient, message: unknown, _metadata: MessageMetadata): Promise<AfterCommit> {
+    const event = message as TenantDeletedEvent;
+    const tenantId = event.tenant_id || event.data?.tenant_id;
+
+    if (!tenantId) {
+      throw new Error('INVALID_EVENT: tenant.deleted requires tenant_id');
+    }
+
+    const attachments = await client.query<{ uri: string }>(
+      'SELECT uri FROM attachments WHERE tenant_id = $1;',
+      [tenantId]
+    );
+
+    // Children first; deleting work_items cascades status_history
+    const purgeQueries: Record<string, string> = {
+      dependency_edges: 'DELETE FROM dependency_edges WHERE tenant_id = $1;',
+      lineage_edges: 'DELETE FROM lineage_edges WHERE tenant_id = $1;',
+      comments: 'DELETE FROM comments WHERE tenant_id = $1;',
+      attachments: 'DELETE FROM attachments WHERE tenant_id = $1;',
+      work_item_changes: 'DELETE FROM work_item_changes WHERE tenant_id = $1;',
+      work_items: 'DELETE FROM work_items WHERE tenant_id = $1;',
+      event_outbox: 'DELETE FROM event_outbox WHERE tenant_id = $1 AND published_at IS NULL;',
+      service_api_keys: 'DELETE FROM service_api_keys WHERE tenant_id = $1;'
+    };
+
+    const purged: Record<string, number> = {};
+    for (const [table, query] of Object.entries(purgeQueries)) {
+      const result = await client.query(query, [tenantId]);
+      purged[table] = result.rowCount || 0;
+    }
+
+    this.logger.info('Tenant data purged', { tenantId, purged });
+
+    // Blob removal waits for commit so a rolled-back purge never loses content
+    const uris = attachments.rows.map(row => row.uri);
+    return () => this.deleteBlobs(tenantId, uris);
+  }
+
+  private async deleteBlobs(tenantId: string, uris: string[]): Promise<void> {
+    for (const uri of uris) {
+      await this.storage.delete(uri).catch((error) => {
+        this.logger.warn('Failed to delete attachment blob for purged tenant', {
+          tenantId,
+          uri,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
+  }
+}
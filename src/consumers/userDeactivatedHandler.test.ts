@@ -0,0 +1,68 @@
+import { PoolClient } from 'pg';
+import { UserDeactivatedHandler } from './userDeactivatedHandler';
+import { EventOutboxService } from '../services/eventOutboxService';
+import { MessageMetadata, SYSTEM_USER_ID } from '../types';
+
+jest.mock('../services/loggerService');
+
+const metadata: MessageMetadata = { routingKey: 'user.deactivated', headers: {}, attempt: 1 };
+
+describe('UserDeactivatedHandler', () => {
+  let queries: { text: string; params: unknown[] }[];
+  let publishWorkItemEvent: jest.Mock;
+  let handler: UserDeactivatedHandler;
+
+  const client = {
+    query: async (text: string, params: unknown[]) => {
+      queries.push({ text, params });
+      if (text.includes('UPDATE work_items')) {
+        return { rows: [{ id: 'item-1' }, { id: 'item-2' }] };
+      }
+      return { rows: [] };
+    }
+  } as unknown as PoolClient;
+
+  beforeEach(() => {
+    queries = [];
+    publishWorkItemEvent = jest.fn();
+    handler = new UserDeactivatedHandler({ publishWorkItemEvent } as unknown as EventOutboxService);
+  });
+
+  it('reassigns open work items to the named successor and records the change', async () => {
+    await handler.handle(client, { tenant_id: 'tenant-1', user_id: 'user-1', reassign_to: 'user-2' }, metadata);
+
+    expect(queries[0].text).toContain('SET owner_id = $3');
+    expect(queries[0].params).toEqual(['tenant-1', 'user-1', 'user-2']);
+
+    const changes = queries.filter(({ text }) => text.includes('INSERT INTO work_item_changes'));
+    expect(changes).toHaveLength(2);
+    expect(changes[0].params).toEqual([
+      'tenant-1',
+      'item-1',
+      { fields: { owner_id: { from: 'user-1', to: 'user-2' } } },
+      SYSTEM_USER_ID
+    ]);
+
+    expect(publishWorkItemEvent).toHaveBeenCalledTimes(2);
+    expect(publishWorkItemEvent).toHaveBeenCalledWith(client, expect.objectContaining({
+      type: 'owner_reassigned',
+      work_item_id: 'item-1',
+      user_id: SYSTEM_USER_ID
+    }));
+  });
+
+  it('flags work items when there is no successor', async () => {
+    await handler.handle(client, { tenant_id: 'tenant-1', data: { user_id: 'user-1' } }, metadata);
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].text).toContain("'owner_deactivated', true");
+    expect(queries[0].params).toEqual(['tenant-1', 'user-1']);
+    expect(publishWorkItemEvent).toHaveBeenCalledWith(client, expect.objectContaining({ type: 'owner_deactivated' }));
+  });
+
+  it('rejects events without a tenant or user', async () => {
+    await expect(handler.handle(client, { type: 'user.renamed', tenant_id: 'tenant-1' }, metadata))
+      .rejects.toThrow('INVALID_EVENT: user.deactivated requires tenant_id and user_id');
+    expect(queries).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+// Handler for user.deactivated events from the User Service
+
+import { PoolClient } from 'pg';
+import { EventOutboxService } from '../services/eventOutboxService';
+import { LoggerService } from '../services/loggerService';
+import { EventHandler, MessageMetadata, SYSTEM_USER_ID, WorkItem, WorkItemEvent } from '../types';
+
+// Older publishers nest the user fields under `data`
+interface UserDeactivatedEvent {
+  tenant_id?: string;
+  user_id?: string;
+  reassign_to?: string;
+  data?: { user_id?: string; reassign_to?: string };
+}
+
+/**
+ * Open work items owned by a deactivated user are reassigned when the event
+ * names a successor (`reassign_to`), otherwise they are flagged in metadata
+ * so owners can be picked by hand.
+ */
+export class UserDeactivatedHandler implements EventHandler {
+  readonly name = 'user-deactivated';
+  readonly exchange = process.env.USER_EVENTS_EXCHANGE || 'users';
+  readonly routingKey = 'user.deactivated';
+
+  private outbox: EventOutboxService;
+  private logger: LoggerService;
+
+  constructor(outbox: EventOutboxService) {
+    this.outbox = outbox;
+    this.logger = new LoggerService();
+  }
+
+  async handle(client: PoolClient, message: unknown, _metadata: MessageMetadata): Promise<void> {
+    const event = message as UserDeactivatedEvent;
+    const tenantId = event.tenant_id;
+    const userId = event.user_id || event.data?.user_id;
+    const reassignTo = event.reassign_to || event.data?.reassign_to;
+
+    if (!tenantId || !userId) {
+      throw new Error('INVALID_EVENT: user.deactivated requires tenant_id and user_id');
+    }
+
+    const result = reassignTo
+      ? await client.query<WorkItem>(`
+          UPDATE work_items
+          SET owner_id = $3
+          WHERE tenant_id = $1 AND owner_id = $2 AND status NOT IN ('completed', 'cancelled') AND deleted_at IS NULL
+          RETURNING *;
+        `, [tenantId, userId, reassignTo])
+      : await client.query<WorkItem>(`
+          UPDATE work_items
+          SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+            'owner_deactivated', true,
+            'owner_deactivated_at', NOW()
+          )
+          WHERE tenant_id = $1 AND owner_id = $2 AND status NOT IN ('completed', 'cancelled') AND deleted_at IS NULL
+          RETURNING *;
+        `, [tenantId, userId]);
+
+    for (const workItem of result.rows) {
+      if (reassignTo) {
+        await client.query(`
+          INSERT INTO work_item_changes (tenant_id, work_item_id, change_type, data, changed_by)
+          VALUES ($1, $2, 'fields', $3, $4);
+        `, [tenantId, workItem.id, { fields: { owner_id: { from: userId, to: reassignTo } } }, SYSTEM_USER_ID]);
+      }
+
+      const workItemEvent: WorkItemEvent = {
+        type: reassignTo ? 'owner_reassigned' : 'owner_deactivated',
+        work_item_id: workItem.id,
+        tenant_id: tenantId,
+        user_id: SYSTEM_USER_ID,
+        data: {
+          work_item: workItem,
+          previous_owner_id: userId,
+          reassigned_to: reassignTo
+        },
+        timestamp: new Date()
+      };
+
+      await this.outbox.publishWorkItemEvent(client, workItemEvent);
+    }
+
+    this.logger.info('Work items updated for deactivated user', {
+      userId,
+      tenantId,
+      reassignedTo: reassignTo,
+      affected: result.rows.length
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { ApiKeyController } from './apiKeyController';
+import { ApiKeyService } from '../services/apiKeyService';
+import { User } from '../types';
+
+jest.mock('../services/loggerService');
+
+const admin: User = { id: 'admin-1', email: 'admin@example.com', tenant_id: 'tenant-1', roles: ['admin'] };
+const developer: User = { ...admin, id: 'dev-1', roles: ['Developer'] };
+const service: User = { ...admin, id: 'key-1', principal_type: 'service', scopes: ['work_items:write'] };
+
+describe('ApiKeyController', () => {
+  let apiKeyService: Record<'createApiKey' | 'listApiKeys' | 'revokeApiKey', jest.Mock>;
+  let controller: ApiKeyController;
+
+  const call = async (
+    action: 'createApiKey' | 'listApiKeys' | 'revokeApiKey',
+    user: User,
+    fields: { body?: unknown; params?: Record<string, string> } = {}
+  ) => {
+    const captured = { statusCode: 200, body: {} as Record<string, unknown> };
+    const res = {
+      status(code: number) {
+        captured.statusCode = code;
+        return res;
+      },
+      json(body: Record<string, unknown>) {
+        captured.body = body;
+        return res;
+      }
+    };
+
+    await controller[action]({ user, params: {}, body: {}, ...fields } as unknown as Request, res as unknown as Response);
+    return captured;
+  };
+
+  beforeEach(() => {
+    apiKeyService = {
+      createApiKey: jest.fn().mockResolvedValue({ id: 'key-1', key: 'wik_secret' }),
+      listApiKeys: jest.fn().mockResolvedValue([]),
+      revokeApiKey: jest.fn()
+    };
+    controller = new ApiKeyController(apiKeyService as unknown as ApiKeyService);
+  });
+
+  it('creates a key for an admin and returns it once', async () => {
+    const captured = await call('createApiKey', admin, { body: { name: 'CI', scopes: ['work_items:read'] } });
+
+    expect(captured.statusCode).toBe(201);
+    expect(captured.body.data).toEqual({ id: 'key-1', key: 'wik_secret' });
+    expect(apiKeyService.createApiKey).toHaveBeenCalledWith(admin, { name: 'CI', scopes: ['work_items:read'] });
+  });
+
+  it.each([
+    ['no scopes', { name: 'CI', scopes: [] }],
+    ['an unknown scope', { name: 'CI', scopes: ['admin:*'] }],
+    ['a repeated scope', { name: 'CI', scopes: ['work_items:read', 'work_items:read'] }],
+    ['a past expiry', { name: 'CI', scopes: ['work_items:read'], expires_at: '2000-01-01T00:00:00Z' }],
+    ['no name', { scopes: ['work_items:read'] }]
+  ])('rejects a request with %s', async (_, body) => {
+    const captured = await call('createApiKey', admin, { body });
+
+    expect(captured.statusCode).toBe(400);
+    expect(apiKeyService.createApiKey).not.toHaveBeenCalled();
+  });
+
+  it('refuses users without an admin role', async () => {
+    const captured = await call('listApiKeys', developer);
+
+    expect(captured.statusCode).toBe(403);
+    expect(apiKeyService.listApiKeys).not.toHaveBeenCalled();
+  });
+
+  it('refuses service principals, so a key cannot mint keys', async () => {
+    const captured = await call('createApiKey', { ...service, roles: ['admin'] }, {
+      body: { name: 'CI', scopes: ['work_items:write'] }
+    });
+
+    expect(captured.statusCode).toBe(403);
+    expect(apiKeyService.createApiKey).not.toHaveBeenCalled();
+  });
+
+  it('reports revoking an unknown key as 404', async () => {
+    apiKeyService.revokeApiKey.mockRejectedValue(new Error('API_KEY_NOT_FOUND'));
+
+    const captured = await call('revokeApiKey', admin, { params: { id: 'missing' } });
+
+    expect(captured.statusCode).toBe(404);
+    expect(captured.body.error).toBe('API_KEY_NOT_FOUND');
+  });
+});
@@ -0,0 +1,130 @@
+// API Key Controller for Managing Service Credentials
+
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ApiKeyService } from '../services/apiKeyService';
+import { LoggerService } from '../services/loggerService';
+import { API_KEY_SCOPES, CreateApiKeyRequest, User } from '../types';
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+  expires_at: Joi.date().iso().greater('now')
+});
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+  private adminRoles: string[];
+  private logger: LoggerService;
+
+  constructor(apiKeyService: ApiKeyService) {
+    this.apiKeyService = apiKeyService;
+    this.adminRoles = (process.env.API_KEY_ADMIN_ROLES || 'admin').split(',').map(role => role.trim());
+    this.logger = new LoggerService();
+  }
+
+  async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      if (!this.requireAdmin(user, res)) {
+        return;
+      }
+
+      const { value, error } = createApiKeySchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: error.message
+        });
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.createApiKey(user, value as CreateApiKeyRequest);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+        message: 'API key created; store the key now, it cannot be shown again'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create API key');
+    }
+  }
+
+  async listApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      if (!this.requireAdmin(user, res)) {
+        return;
+      }
+
+      const apiKeys = await this.apiKeyService.listApiKeys(user);
+
+      res.json({
+        success: true,
+        data: apiKeys
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list API keys');
+    }
+  }
+
+  async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      if (!this.requireAdmin(user, res)) {
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.revokeApiKey(user, req.params.id);
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'API key revoked'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke API key');
+    }
+  }
+
+  // Only human admins manage credentials; service principals never carry roles
+  private requireAdmin(user: User, res: Response): boolean {
+    if (user.principal_type !== 'service' && user.roles.some(role => this.adminRoles.includes(role))) {
+      return true;
+    }
+
+    res.status(403).json({
+      success: false,
+      error: 'FORBIDDEN',
+      message: 'Managing API keys requires an admin role'
+    });
+    return false;
+  }
+
+  private handleError(res: Response, error: unknown, fallbackMessage: string): void {
+    const message = error instanceof Error ? error.message : fallbackMessage;
+
+    if (message.includes('NOT_FOUND')) {
+      res.status(404).json({
+        success: false,
+        error: 'API_KEY_NOT_FOUND',
+        message: 'API key not found'
+      });
+      return;
+    }
+
+    this.logger.error(fallbackMessage, { error: message });
+
+    res.status(500).json({
+      success: false,
+      error: 'INTERNAL_ERROR',
+      message,
+      timestamp: new Date()
+    });
+  }
+}
@@ -0,0 +1,112 @@
+// Authorization Controller for Admin Debugging Endpoints
+
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { CedarAuthService } from '../services/cedarAuthService';
+import { WorkItemService } from '../services/workItemService';
+import { LoggerService } from '../services/loggerService';
+import { ExplainAuthorizationRequest, User } from '../types';
+
+const explainRequestSchema = Joi.object({
+  action: Joi.string().max(100).required(),
+  work_item_id: Joi.string().guid().required(),
+  principal: Joi.object({
+    id: Joi.string().max(100).required(),
+    type: Joi.string().valid('user', 'service'),
+    roles: Joi.array().items(Joi.string().max(100)).required(),
+    scopes: Joi.array().items(Joi.string().max(100))
+  }),
+  context: Joi.object()
+});
+
+export class AuthzController {
+  private cedarAuth: CedarAuthService;
+  private workItemService: WorkItemService;
+  private adminRoles: string[];
+  private logger: LoggerService;
+
+  constructor(cedarAuth: CedarAuthService, workItemService: WorkItemService) {
+    this.cedarAuth = cedarAuth;
+    this.workItemService = workItemService;
+    this.adminRoles = (process.env.AUTHZ_ADMIN_ROLES || 'admin').split(',').map(role => role.trim());
+    this.logger = new LoggerService();
+  }
+
+  async explain(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+
+      if (!user.roles.some(role => this.adminRoles.includes(role))) {
+        res.status(403).json({
+          success: false,
+          error: 'FORBIDDEN',
+          message: 'Explaining authorization decisions requires an admin role'
+        });
+        return;
+      }
+
+      const { value, error } = explainRequestSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: error.message
+        });
+        return;
+      }
+
+      const data = value as ExplainAuthorizationRequest;
+
+      // Loaded without a read check so denied reads can be explained too
+      const workItem = await this.workItemService.findWorkItemUnchecked(user.tenant_id, data.work_item_id);
+      if (!workItem) {
+        res.status(404).json({
+          success: false,
+          error: 'WORK_ITEM_NOT_FOUND',
+          message: 'Work item not found'
+        });
+        return;
+      }
+
+      const principal: User = data.principal
+        ? {
+            id: data.principal.id,
+            email: '',
+            tenant_id: user.tenant_id,
+            roles: data.principal.roles,
+            principal_type: data.principal.type,
+            scopes: data.principal.scopes
+          }
+        : user;
+
+      const explanation = await this.cedarAuth.explainPolicy(principal, data.action, workItem, data.context);
+
+      this.logger.info('Authorization explained', {
+        adminId: user.id,
+        principalId: principal.id,
+        action: data.action,
+        workItemId: workItem.id,
+        allowed: explanation.allowed,
+        policyId: explanation.policy_id,
+        fallback: explanation.fallback
+      });
+
+      res.json({
+        success: true,
+        data: explanation
+      });
+
+    } catch (error) {
+      this.logger.error('Failed to explain authorization', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to explain authorization',
+        timestamp: new Date()
+      });
+    }
+  }
+}
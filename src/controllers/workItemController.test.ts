@@ -0,0 +1,339 @@
+import { Request, Response } from 'express';
+import { WorkItemController } from './workItemController';
+import { WorkItemService } from '../services/workItemService';
+import { DependencyService } from '../services/dependencyService';
+import { CommentService } from '../services/commentService';
+import { AttachmentService } from '../services/attachmentService';
+import { HistoryService } from '../services/historyService';
+import { BulkService } from '../services/bulkService';
+import { BulkMode, BulkOperationResult, BulkResult, ServiceError, User, WorkItem, WorkItemQueryParams } from '../types';
+
+jest.mock('../services/loggerService');
+
+const user: User = { id: 'user-1', email: 'user@example.com', tenant_id: 'tenant-1', roles: ['Developer'] };
+
+interface MockResponse {
+  statusCode: number;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+const createResponse = () => {
+  const captured: MockResponse = { statusCode: 200, body: {}, headers: {} };
+  const res = {
+    status(code: number) {
+      captured.statusCode = code;
+      return res;
+    },
+    json(body: Record<string, unknown>) {
+      captured.body = body;
+      return res;
+    },
+    set(name: string, value: string) {
+      captured.headers[name] = value;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      captured.headers[name] = value;
+      return res;
+    }
+  };
+  return { res: res as unknown as Response, captured };
+};
+
+const request = (fields: Record<string, unknown> & { headers?: Record<string, string> }): Request => {
+  const headers = Object.fromEntries(Object.entries(fields.headers || {}).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    user,
+    params: {},
+    query: {},
+    body: {},
+    ...fields,
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+    is: (type: string) => headers['content-type'] === type
+  } as unknown as Request;
+};
+
+const ITEM = '00000000-0000-4000-8000-000000000001';
+const PARENT = '00000000-0000-4000-8000-000000000002';
+
+const current = { id: ITEM, title: 'Current', version: 7 } as WorkItem;
+
+describe('WorkItemController', () => {
+  let workItemService: Record<string, jest.Mock>;
+  let bulkService: { execute: jest.Mock };
+  let controller: WorkItemController;
+
+  beforeEach(() => {
+    bulkService = { execute: jest.fn() };
+    workItemService = {
+      getWorkItemsWithLineage: jest.fn().mockResolvedValue({
+        items: [], total: 0, has_more: false, next_cursor: null, prev_cursor: null
+      }),
+      updateWorkItem: jest.fn().mockResolvedValue(current),
+      patchWorkItem: jest.fn().mockResolvedValue(current),
+      deleteWorkItem: jest.fn().mockResolvedValue({ count: 1 }),
+      moveWorkItem: jest.fn().mockResolvedValue({ work_item: { ...current, version: 8 }, parent_id: PARENT })
+    };
+
+    controller = new WorkItemController(
+      workItemService as unknown as WorkItemService,
+      {} as DependencyService,
+      {} as CommentService,
+      { maxBytes: 1024 } as AttachmentService,
+      {} as HistoryService,
+      bulkService as unknown as BulkService
+    );
+  });
+
+  describe('list query parsing', () => {
+    const list = async (query: Record<string, string | string[]>) => {
+      const { res, captured } = createResponse();
+      await controller.getWorkItems(request({ query }), res);
+      const params: WorkItemQueryParams | undefined = workItemService.getWorkItemsWithLineage.mock.calls[0]?.[1];
+      return { params, captured };
+    };
+
+    it('applies defaults', async () => {
+      const { params, captured } = await list({});
+
+      expect(params).toMatchObject({ limit: 50, offset: 0, metadata: {} });
+      expect(captured.body.meta).toEqual({
+        limit: 50, offset: 0, total: 0, has_more: false, next_cursor: null, prev_cursor: null
+      });
+    });
+
+    it('splits comma-separated and repeated list values', async () => {
+      const { params } = await list({ status: ['draft,planned', ' blocked '], type: 'task' });
+
+      expect(params?.status).toEqual(['draft', 'planned', 'blocked']);
+      expect(params?.type).toEqual(['task']);
+    });
+
+    it('converts dates, booleans and numbers', async () => {
+      const { params } = await list({
+        due_at_from: '2024-01-01T00:00:00Z',
+        completed_at_to: '2024-02-01',
+        overdue: 'true',
+        include_archived: 'false',
+        limit: '10',
+        offset: '20'
+      });
+
+      expect(params?.due_at).toEqual({ from: new Date('2024-01-01T00:00:00Z'), to: undefined });
+      expect(params?.completed_at?.to).toEqual(new Date('2024-02-01'));
+      expect(params).toMatchObject({ overdue: true, include_archived: false, limit: 10, offset: 20 });
+    });
+
+    it('collects metadata filters by path', async () => {
+      const { params } = await list({ 'metadata.jira.key': ['HTMA-1', 'HTMA-2'], 'metadata.team': 'core' });
+
+      expect(params?.metadata).toEqual({ 'jira.key': ['HTMA-1', 'HTMA-2'], team: ['core'] });
+    });
+
+    it('drops unknown parameters', async () => {
+      const { params } = await list({ colour: 'blue' });
+
+      expect(params).not.toHaveProperty('colour');
+    });
+
+    it.each([
+      ['an unknown status', { status: 'shipped' }],
+      ['a malformed owner', { owner_id: 'not-a-uuid' }],
+      ['a malformed parent', { parent_id: '42' }],
+      ['a non-ISO date', { due_at_from: 'next tuesday' }],
+      ['a limit above 500', { limit: '501' }],
+      ['a negative offset', { offset: '-1' }],
+      ['an offset beyond the cap', { offset: '1001' }],
+      ['an oversized metadata value', { 'metadata.team': 'x'.repeat(501) }]
+    ])('rejects %s with 400', async (_, query) => {
+      const { params, captured } = await list(query);
+
+      expect(params).toBeUndefined();
+      expect(captured.statusCode).toBe(400);
+      expect(captured.body.error).toBe('INVALID_REQUEST');
+      expect(captured.body.message).toMatch(/^INVALID_QUERY/);
+    });
+  });
+
+  describe('bulk responses', () => {
+    const bulk = async (mode: BulkMode, results: BulkOperationResult[]) => {
+      bulkService.execute.mockResolvedValue({
+        mode,
+        results,
+        succeeded: results.filter(result => result.status === 'succeeded').length,
+        failed: results.filter(result => result.status === 'failed').length
+      });
+
+      const { res, captured } = createResponse();
+      await controller.bulkWorkItems(request({
+        body: { mode, operations: [{ op: 'delete', id: '00000000-0000-4000-8000-000000000001' }] }
+      }), res);
+      return captured;
+    };
+
+    it('classifies known failures and keeps their messages', async () => {
+      const captured = await bulk(BulkMode.ATOMIC, [
+        { index: 0, op: 'delete', status: 'failed', error: { code: 'CANNOT_DELETE_PARENT', message: 'CANNOT_DELETE_PARENT: Item has children' } },
+        { index: 1, op: 'delete', status: 'skipped' },
+        { index: 2, op: 'delete', status: 'failed', error: { code: 'PARENT_NOT_FOUND', message: 'PARENT_NOT_FOUND' } }
+      ]);
+
+      expect(captured.statusCode).toBe(409);
+      expect((captured.body.data as BulkResult).results[0].error).toEqual({
+        code: 'CANNOT_DELETE_PARENT',
+        status_code: 409,
+        message: 'CANNOT_DELETE_PARENT: Item has children'
+      });
+      expect((captured.body.data as BulkResult).results[2].error).toEqual({
+        code: 'NOT_FOUND',
+        status_code: 404,
+        message: 'PARENT_NOT_FOUND'
+      });
+    });
+
+    it('hides the messages and details of unexpected failures', async () => {
+      const captured = await bulk(BulkMode.BEST_EFFORT, [
+        { index: 0, op: 'delete', status: 'succeeded' },
+        {
+          index: 1,
+          op: 'delete',
+          status: 'failed',
+          error: { message: 'duplicate key value violates unique constraint "work_items_pkey"', details: { table: 'work_items' } }
+        }
+      ]);
+
+      expect(captured.statusCode).toBe(207);
+      expect((captured.body.data as BulkResult).results[1].error).toEqual({
+        code: 'INTERNAL_ERROR',
+        status_code: 500,
+        message: 'Operation failed'
+      });
+    });
+
+    it('rejects malformed requests before running them', async () => {
+      const { res, captured } = createResponse();
+      await controller.bulkWorkItems(request({ body: { operations: [{ op: 'update', id: 'x' }] } }), res);
+
+      expect(captured.statusCode).toBe(400);
+      expect(bulkService.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('preconditions', () => {
+    const update = async (headers: Record<string, string>) => {
+      const { res, captured } = createResponse();
+      await controller.updateWorkItem(request({ params: { id: ITEM }, body: { title: 'New' }, headers }), res);
+      return captured;
+    };
+
+    const expectedVersions = (mock: jest.Mock) => mock.mock.calls[0].at(-1).expected_versions;
+
+    it('sends no precondition without If-Match or with *', async () => {
+      await update({});
+      await update({ 'If-Match': '*' });
+
+      expect(workItemService.updateWorkItem.mock.calls.map(call => call[3].expected_versions)).toEqual([undefined, undefined]);
+    });
+
+    it('accepts a list of strong tags and ignores weak or malformed ones', async () => {
+      await update({ 'If-Match': '"3", W/"4" ,"5", 6, "x"' });
+
+      expect(expectedVersions(workItemService.updateWorkItem)).toEqual([3, 5]);
+    });
+
+    it('matches nothing when only weak tags are sent', async () => {
+      await update({ 'If-Match': 'W/"7"' });
+
+      expect(expectedVersions(workItemService.updateWorkItem)).toEqual([]);
+    });
+
+    it('returns the new version as the ETag', async () => {
+      const captured = await update({ 'If-Match': '"7"' });
+
+      expect(captured.headers.ETag).toBe('"7"');
+    });
+
+    it('answers a stale version with 412 and the current item', async () => {
+      workItemService.updateWorkItem.mockRejectedValue(new ServiceError(
+        `PRECONDITION_FAILED: Work item ${ITEM} was modified; current version is 7`,
+        { current }
+      ));
+
+      const captured = await update({ 'If-Match': '"6"' });
+
+      expect(captured.statusCode).toBe(412);
+      expect(captured.body).toMatchObject({ success: false, error: 'PRECONDITION_FAILED', details: { current } });
+    });
+
+    it('applies If-Match to patches and deletes', async () => {
+      const { res } = createResponse();
+      await controller.patchWorkItem(request({
+        params: { id: ITEM },
+        body: { title: 'Patched' },
+        headers: { 'Content-Type': 'application/merge-patch+json', 'If-Match': '"7"' }
+      }), res);
+      await controller.deleteWorkItem(request({ params: { id: ITEM }, headers: { 'If-Match': '"7"' } }), res);
+
+      expect(expectedVersions(workItemService.patchWorkItem)).toEqual([7]);
+      expect(expectedVersions(workItemService.deleteWorkItem)).toEqual([7]);
+    });
+
+    it('applies If-Match to moves and returns the moved version', async () => {
+      const { res, captured } = createResponse();
+      await controller.moveWorkItem(request({
+        params: { id: ITEM },
+        body: { parent_id: PARENT },
+        headers: { 'If-Match': '"7"' }
+      }), res);
+
+      expect(workItemService.moveWorkItem).toHaveBeenCalledWith(user, ITEM, { parent_id: PARENT }, { expected_versions: [7] });
+      expect(captured.headers.ETag).toBe('"8"');
+    });
+  });
+
+  describe('error classification', () => {
+    const failWith = async (error: Error) => {
+      workItemService.updateWorkItem.mockRejectedValue(error);
+      const { res, captured } = createResponse();
+      await controller.updateWorkItem(request({ params: { id: ITEM }, body: {} }), res);
+      return captured;
+    };
+
+    it.each([
+      ['WORK_ITEM_NOT_FOUND', 404, 'NOT_FOUND'],
+      ['PARENT_NOT_FOUND: Specified parent work item does not exist', 404, 'NOT_FOUND'],
+      ['INSUFFICIENT_PERMISSIONS: denied', 403, 'INSUFFICIENT_PERMISSIONS'],
+      ['LINEAGE_CYCLE: cycle', 409, 'LINEAGE_CYCLE'],
+      ['STATUS_REASON_REQUIRED: why?', 400, 'STATUS_REASON_REQUIRED'],
+      ['INVALID_HIERARCHY: no', 400, 'INVALID_REQUEST'],
+      ['connect ECONNREFUSED 127.0.0.1:5432', 500, 'INTERNAL_ERROR']
+    ])('maps %s to %i', async (message, statusCode, errorCode) => {
+      const captured = await failWith(new Error(message));
+
+      expect(captured.statusCode).toBe(statusCode);
+      expect(captured.body.error).toBe(errorCode);
+    });
+
+    it('classifies only on the leading code, not on codes inside the message', async () => {
+      const captured = await failWith(new Error('Lookup failed: WORK_ITEM_NOT_FOUND'));
+
+      expect(captured.statusCode).toBe(500);
+    });
+
+    it('is not steered by user-supplied patch paths', async () => {
+      const { res, captured } = createResponse();
+      await controller.patchWorkItem(request({
+        params: { id: ITEM },
+        body: [{ op: 'replace', path: '/PRECONDITION_FAILED', value: 1 }],
+        headers: { 'Content-Type': 'application/json-patch+json' }
+      }), res);
+
+      expect(captured.statusCode).toBe(400);
+      expect(captured.body.error).toBe('INVALID_REQUEST');
+      expect(captured.body.message).toBe('INVALID_PATCH: PRECONDITION_FAILED cannot be patched (operation 0: replace /PRECONDITION_FAILED)');
+      expect(workItemService.patchWorkItem).not.toHaveBeenCalled();
+    });
+  });
+});
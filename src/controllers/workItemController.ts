@@ -1,22 +1,168 @@
 // Work Item Controller - REST API endpoints
 
-import { Request, Response } from 'express';
-import { WorkItemService } from '../services/workItemService';
+import { Request, Response, RequestHandler } from 'express';
+import multer from 'multer';
+import Joi from 'joi';
+import { MAX_LIST_OFFSET, WorkItemService } from '../services/workItemService';
+import { DependencyService } from '../services/dependencyService';
+import { CommentService } from '../services/commentService';
+import { AttachmentService } from '../services/attachmentService';
+import { HistoryService } from '../services/historyService';
+import { BulkService } from '../services/bulkService';
 import { LoggerService } from '../services/loggerService';
-import { User, CreateWorkItemRequest, UpdateWorkItemRequest, WorkItemQueryParams } from '../types';
+import {
+  User,
+  WorkItem,
+  CreateWorkItemRequest,
+  UpdateWorkItemRequest,
+  MoveWorkItemRequest,
+  CreateLineageLinkRequest,
+  LineageRelationType,
+  WorkItemQueryParams,
+  CreateDependencyRequest,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  WorkItemType,
+  WorkItemStatus,
+  WorkItemPriority,
+  HistoryQueryParams,
+  TimelineEntryType,
+  BulkMode,
+  BulkRequest,
+  JsonPatchOperation,
+  WorkItemPatch,
+  ServiceError,
+  getErrorCode
+} from '../types';
+
+const workItemQuerySchema = Joi.object({
+  type: Joi.array().items(Joi.string().valid(...Object.values(WorkItemType))),
+  status: Joi.array().items(Joi.string().valid(...Object.values(WorkItemStatus))),
+  priority: Joi.array().items(Joi.string().valid(...Object.values(WorkItemPriority))),
+  owner_id: Joi.array().items(Joi.string().guid()),
+  created_by: Joi.array().items(Joi.string().guid()),
+  parent_id: Joi.string().guid(),
+  search: Joi.string().max(500),
+  due_at_from: Joi.date().iso(),
+  due_at_to: Joi.date().iso(),
+  created_at_from: Joi.date().iso(),
+  created_at_to: Joi.date().iso(),
+  completed_at_from: Joi.date().iso(),
+  completed_at_to: Joi.date().iso(),
+  overdue: Joi.boolean(),
+  include_archived: Joi.boolean(),
+  sort: Joi.string().max(200),
+  cursor: Joi.string().max(2000),
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  offset: Joi.number().integer().min(0).max(MAX_LIST_OFFSET).default(0)
+}).pattern(/^metadata(\.[A-Za-z0-9_-]+)+$/, Joi.array().items(Joi.string().max(500)));
+
+// Validates each field an update or patch may set; nulls clear the optional fields
+const updateWorkItemSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(500),
+  description: Joi.string().allow('', null),
+  status: Joi.string().valid(...Object.values(WorkItemStatus)),
+  priority: Joi.string().valid(...Object.values(WorkItemPriority)),
+  owner_id: Joi.string().guid(),
+  due_at: Joi.date().iso().allow(null),
+  metadata: Joi.object().allow(null),
+  reason: Joi.string().max(2000)
+});
+
+const PATCH_MEDIA_TYPES = ['application/json-patch+json', 'application/merge-patch+json'];
+const PATCH_MAX_OPERATIONS = 100;
+
+const jsonPatchSchema = Joi.array().min(1).max(PATCH_MAX_OPERATIONS).required().items(Joi.object({
+  op: Joi.string().valid('add', 'remove', 'replace', 'move', 'copy', 'test').required(),
+  path: Joi.string().allow('').max(1000).required(),
+  from: Joi.string().max(1000).when('op', { is: Joi.valid('move', 'copy'), then: Joi.required(), otherwise: Joi.forbidden() }),
+  value: Joi.any().when('op', { is: Joi.valid('add', 'replace', 'test'), then: Joi.required(), otherwise: Joi.forbidden() })
+}));
+
+const historyQuerySchema = Joi.object({
+  types: Joi.array().items(Joi.string().valid(...Object.values(TimelineEntryType))).single(),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+const BULK_MAX_OPERATIONS = parseInt(process.env.BULK_MAX_OPERATIONS || '500');
+
+const bulkRequestSchema = Joi.object({
+  mode: Joi.string().valid(...Object.values(BulkMode)).default(BulkMode.ATOMIC),
+  operations: Joi.array().min(1).max(BULK_MAX_OPERATIONS).required().items(Joi.object({
+    op: Joi.string().valid('create', 'update', 'delete').required(),
+    temp_id: Joi.string().max(100).when('op', { is: 'create', otherwise: Joi.forbidden() }),
+    id: Joi.string().max(100).when('op', { is: 'create', then: Joi.forbidden(), otherwise: Joi.required() }),
+    cascade: Joi.boolean().when('op', { is: 'delete', otherwise: Joi.forbidden() }),
+    data: Joi.when('op', {
+      switch: [
+        {
+          is: 'create',
+          then: Joi.object({
+            type: Joi.string().valid(...Object.values(WorkItemType)).required(),
+            title: Joi.string().max(500).required(),
+            parent_id: Joi.string().max(100)
+          }).unknown(true).required()
+        },
+        { is: 'update', then: updateWorkItemSchema.min(1).required() }
+      ],
+      otherwise: Joi.forbidden()
+    })
+  }))
+});
+
+// Codes with their own status; other *_NOT_FOUND codes are 404 and other INVALID_* codes 400
+const ERROR_STATUS_CODES: Record<string, number> = {
+  LINEAGE_REQUIRED: 409,
+  CANNOT_DELETE_PARENT: 409,
+  RESTORE_PARENT_DELETED: 409,
+  LINEAGE_CYCLE: 409,
+  DEPENDENCY_CYCLE: 409,
+  LINK_EXISTS: 409,
+  DEPENDENCY_EXISTS: 409,
+  ATTACHMENT_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  PATCH_TEST_FAILED: 409,
+  INVALID_STATUS_TRANSITION: 409,
+  STATUS_REASON_REQUIRED: 400,
+  PRECONDITION_FAILED: 412,
+  INSUFFICIENT_PERMISSIONS: 403
+};
 
 export class WorkItemController {
   private workItemService: WorkItemService;
+  private dependencyService: DependencyService;
+  private commentService: CommentService;
+  private attachmentService: AttachmentService;
+  private historyService: HistoryService;
+  private bulkService: BulkService;
+  private upload: RequestHandler;
   private logger: LoggerService;
 
-  constructor(workItemService: WorkItemService) {
+  constructor(
+    workItemService: WorkItemService,
+    dependencyService: DependencyService,
+    commentService: CommentService,
+    attachmentService: AttachmentService,
+    historyService: HistoryService,
+    bulkService: BulkService
+  ) {
     this.workItemService = workItemService;
+    this.dependencyService = dependencyService;
+    this.commentService = commentService;
+    this.attachmentService = attachmentService;
+    this.historyService = historyService;
+    this.bulkService = bulkService;
+    this.upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: attachmentService.maxBytes, files: 1 }
+    }).single('file');
     this.logger = new LoggerService();
   }
 
   async createWorkItem(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       const data: CreateWorkItemRequest = req.body;
 
       // Validate required fields
@@ -31,6 +177,7 @@ export class WorkItemController {
 
       const workItem = await this.workItemService.createWorkItem(user, data);
 
+      res.set('ETag', this.formatETag(workItem));
       res.status(201).json({
         success: true,
         data: workItem
@@ -41,9 +188,60 @@ export class WorkItemController {
     }
   }
 
+  async bulkWorkItems(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+
+      const { value, error } = bulkRequestSchema.validate(req.body, { convert: true });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_BULK_REQUEST',
+          message: error.message
+        });
+        return;
+      }
+
+      const result = await this.bulkService.execute(user, value as BulkRequest);
+
+      for (const operation of result.results) {
+        if (!operation.error) {
+          continue;
+        }
+
+        const { statusCode, errorCode } = this.classifyError(operation.error.code);
+        if (statusCode === 500) {
+          // Unexpected failures stay in the log; their messages may expose internals
+          this.logger.error('Bulk operation failed', {
+            index: operation.index,
+            op: operation.op,
+            error: operation.error.message
+          });
+          operation.error = { code: errorCode, status_code: statusCode, message: 'Operation failed' };
+        } else {
+          operation.error = { ...operation.error, code: errorCode, status_code: statusCode };
+        }
+      }
+
+      // Atomic failures take the failing operation's status; partial best-effort batches are 207
+      const firstFailure = result.results.find(operation => operation.status === 'failed');
+      const statusCode = !firstFailure
+        ? 200
+        : result.mode === BulkMode.ATOMIC ? firstFailure.error!.status_code! : 207;
+
+      res.status(statusCode).json({
+        success: result.failed === 0,
+        data: result
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to apply bulk operations');
+    }
+  }
+
   async updateWorkItem(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       const workItemId = req.params.id;
       const data: UpdateWorkItemRequest = req.body;
 
@@ -56,8 +254,11 @@ export class WorkItemController {
         return;
       }
 
-      const workItem = await this.workItemService.updateWorkItem(user, workItemId, data);
+      const workItem = await this.workItemService.updateWorkItem(user, workItemId, data, {
+        expected_versions: this.parseIfMatch(req)
+      });
 
+      res.set('ETag', this.formatETag(workItem));
       res.json({
         success: true,
         data: workItem
@@ -68,9 +269,45 @@ export class WorkItemController {
     }
   }
 
+  /**
+   * PATCH /work-items/:id with `application/json-patch+json` (RFC 6902) or
+   * `application/merge-patch+json` (RFC 7396). Plain JSON is read as a
+   * merge patch. Nested paths are only allowed inside `metadata`.
+   */
+  async patchWorkItem(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      res.set('Accept-Patch', PATCH_MEDIA_TYPES.join(', '));
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const workItem = await this.workItemService.patchWorkItem(user, workItemId, this.parsePatch(req), {
+        expected_versions: this.parseIfMatch(req)
+      });
+
+      res.set('ETag', this.formatETag(workItem));
+      res.json({
+        success: true,
+        data: workItem
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to patch work item');
+    }
+  }
+
   async deleteWorkItem(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       const workItemId = req.params.id;
 
       if (!workItemId) {
@@ -82,11 +319,18 @@ export class WorkItemController {
         return;
       }
 
-      await this.workItemService.deleteWorkItem(user, workItemId);
+      const cascade = req.query.cascade === 'true';
+      const result = await this.workItemService.deleteWorkItem(user, workItemId, {
+        cascade,
+        expected_versions: this.parseIfMatch(req)
+      });
 
       res.json({
         success: true,
-        message: 'Work item deleted successfully'
+        data: result,
+        message: cascade
+          ? `Deleted ${result.count} work item(s) successfully`
+          : 'Work item deleted successfully'
       });
 
     } catch (error) {
@@ -94,9 +338,63 @@ export class WorkItemController {
     }
   }
 
+  async restoreWorkItem(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const result = await this.workItemService.restoreWorkItem(user, workItemId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Restored ${result.count} work item(s) successfully`
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to restore work item');
+    }
+  }
+
+  async archiveWorkItem(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const result = await this.workItemService.archiveWorkItem(user, workItemId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Archived ${result.count} work item(s) successfully`
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to archive work item');
+    }
+  }
+
   async getWorkItem(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       const workItemId = req.params.id;
 
       if (!workItemId) {
@@ -119,6 +417,7 @@ export class WorkItemController {
         return;
       }
 
+      res.set('ETag', this.formatETag(workItem));
       res.json({
         success: true,
         data: workItem
@@ -131,28 +430,22 @@ export class WorkItemController {
 
   async getWorkItems(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       
-      const params: WorkItemQueryParams = {
-        type: req.query.type as any,
-        status: req.query.status as any,
-        priority: req.query.priority as any,
-        owner_id: req.query.owner_id as string,
-        parent_id: req.query.parent_id as string,
-        search: req.query.search as string,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
-        offset: req.query.offset ? parseInt(req.query.offset as string) : 0
-      };
+      const params = this.parseWorkItemQuery(req.query);
 
-      const workItems = await this.workItemService.getWorkItemsWithLineage(user, params);
+      const result = await this.workItemService.getWorkItemsWithLineage(user, params);
 
       res.json({
         success: true,
-        data: workItems,
+        data: result.items,
         meta: {
-          total: workItems.length,
           limit: params.limit || 50,
-          offset: params.offset || 0
+          offset: params.offset || 0,
+          total: result.total,
+          has_more: result.has_more,
+          next_cursor: result.next_cursor,
+          prev_cursor: result.prev_cursor
         }
       });
 
@@ -163,7 +456,7 @@ export class WorkItemController {
 
   async getWorkItemLineage(req: Request, res: Response): Promise<void> {
     try {
-      const user: User = (req as any).user;
+      const user = req.user as User;
       const workItemId = req.params.id;
 
       if (!workItemId) {
@@ -187,31 +480,741 @@ export class WorkItemController {
     }
   }
 
-  private handleError(res: Response, error: any, message: string): void {
-    this.logger.error(message, { error: error.message, stack: error.stack });
+  async getWorkItemTree(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const depth = req.query.depth !== undefined ? Number(req.query.depth) : 4;
+      const tree = await this.workItemService.getWorkItemTree(user, workItemId, depth);
 
-    let statusCode = 500;
-    let errorCode = 'INTERNAL_ERROR';
+      res.json({
+        success: true,
+        data: tree
+      });
 
-    if (error.message.includes('LINEAGE_REQUIRED')) {
-      statusCode = 409;
-      errorCode = 'LINEAGE_REQUIRED';
-    } else if (error.message.includes('NOT_FOUND')) {
-      statusCode = 404;
-      errorCode = 'NOT_FOUND';
-    } else if (error.message.includes('INSUFFICIENT_PERMISSIONS')) {
-      statusCode = 403;
-      errorCode = 'INSUFFICIENT_PERMISSIONS';
-    } else if (error.message.includes('INVALID_')) {
-      statusCode = 400;
-      errorCode = 'INVALID_REQUEST';
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get work item tree');
     }
+  }
 
-    res.status(statusCode).json({
-      success: false,
-      error: errorCode,
-      message: error.message || message,
-      timestamp: new Date()
-    });
+  async getWorkItemAncestors(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const ancestry = await this.workItemService.getAncestors(user, workItemId);
+
+      res.json({
+        success: true,
+        data: ancestry
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get work item ancestors');
+    }
+  }
+
+  async moveWorkItem(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const data: MoveWorkItemRequest = req.body;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      if (!data.parent_id) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'parent_id is required'
+        });
+        return;
+      }
+
+      const result = await this.workItemService.moveWorkItem(user, workItemId, data, {
+        expected_versions: this.parseIfMatch(req)
+      });
+
+      res.set('ETag', this.formatETag(result.work_item));
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to move work item');
+    }
+  }
+
+  async createLineageLink(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const data: CreateLineageLinkRequest = req.body;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      if (!data.target_id || !data.relation_type) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'target_id and relation_type are required'
+        });
+        return;
+      }
+
+      if (![LineageRelationType.SUPPORTS, LineageRelationType.DERIVED_FROM].includes(data.relation_type)) {
+        res.status(400).json({
+          success: false,
+          error: 'INVALID_RELATION_TYPE',
+          message: `relation_type must be ${LineageRelationType.SUPPORTS} or ${LineageRelationType.DERIVED_FROM}`
+        });
+        return;
+      }
+
+      const link = await this.workItemService.createLineageLink(user, workItemId, data);
+
+      res.status(201).json({
+        success: true,
+        data: link
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create lineage link');
+    }
+  }
+
+  async deleteLineageLink(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const linkId = req.params.linkId;
+
+      if (!workItemId || !linkId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_LINK_ID',
+          message: 'Work item ID and link ID are required'
+        });
+        return;
+      }
+
+      await this.workItemService.deleteLineageLink(user, workItemId, linkId);
+
+      res.json({
+        success: true,
+        message: 'Lineage link deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete lineage link');
+    }
+  }
+
+  async createDependency(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const data: CreateDependencyRequest = req.body;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      if (!data.to_id) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'to_id is required'
+        });
+        return;
+      }
+
+      const dependency = await this.dependencyService.createDependency(user, workItemId, data);
+
+      res.status(201).json({
+        success: true,
+        data: dependency
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create dependency');
+    }
+  }
+
+  async getDependencies(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const dependencies = await this.dependencyService.getDependencies(user, workItemId);
+
+      res.json({
+        success: true,
+        data: dependencies
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get dependencies');
+    }
+  }
+
+  async deleteDependency(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const dependencyId = req.params.dependencyId;
+
+      if (!workItemId || !dependencyId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_DEPENDENCY_ID',
+          message: 'Work item ID and dependency ID are required'
+        });
+        return;
+      }
+
+      await this.dependencyService.deleteDependency(user, workItemId, dependencyId);
+
+      res.json({
+        success: true,
+        message: 'Dependency deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete dependency');
+    }
+  }
+
+  async createComment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const data: CreateCommentRequest = req.body;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      if (!data.body) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'Comment body is required'
+        });
+        return;
+      }
+
+      const comment = await this.commentService.createComment(user, workItemId, data);
+
+      res.status(201).json({
+        success: true,
+        data: comment
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create comment');
+    }
+  }
+
+  async getComments(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const comments = await this.commentService.getComments(user, workItemId);
+
+      res.json({
+        success: true,
+        data: comments
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get comments');
+    }
+  }
+
+  async updateComment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const commentId = req.params.commentId;
+      const data: UpdateCommentRequest = req.body;
+
+      if (!workItemId || !commentId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_COMMENT_ID',
+          message: 'Work item ID and comment ID are required'
+        });
+        return;
+      }
+
+      if (!data.body) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'Comment body is required'
+        });
+        return;
+      }
+
+      const comment = await this.commentService.updateComment(user, workItemId, commentId, data);
+
+      res.json({
+        success: true,
+        data: comment
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update comment');
+    }
+  }
+
+  async deleteComment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const commentId = req.params.commentId;
+
+      if (!workItemId || !commentId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_COMMENT_ID',
+          message: 'Work item ID and comment ID are required'
+        });
+        return;
+      }
+
+      await this.commentService.deleteComment(user, workItemId, commentId);
+
+      res.json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete comment');
+    }
+  }
+
+  async uploadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      await this.parseUpload(req, res);
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_REQUIRED_FIELDS',
+          message: 'A multipart "file" field is required'
+        });
+        return;
+      }
+
+      const attachment = await this.attachmentService.uploadAttachment(user, workItemId, req.file);
+
+      res.status(201).json({
+        success: true,
+        data: attachment
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to upload attachment');
+    }
+  }
+
+  async getAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const attachments = await this.attachmentService.getAttachments(user, workItemId);
+
+      res.json({
+        success: true,
+        data: attachments
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get attachments');
+    }
+  }
+
+  async downloadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const attachmentId = req.params.attachmentId;
+
+      if (!workItemId || !attachmentId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_ATTACHMENT_ID',
+          message: 'Work item ID and attachment ID are required'
+        });
+        return;
+      }
+
+      const { attachment, stream } = await this.attachmentService.openAttachment(user, workItemId, attachmentId);
+
+      res.setHeader('Content-Type', attachment.mime_type || 'application/octet-stream');
+      res.setHeader('Content-Length', String(attachment.size_bytes));
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Digest', `sha-256=${Buffer.from(attachment.checksum, 'hex').toString('base64')}`);
+
+      stream.on('error', (error) => {
+        this.logger.error('Attachment stream failed', { attachmentId, error: error.message });
+        res.destroy(error);
+      });
+      stream.pipe(res);
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to download attachment');
+    }
+  }
+
+  async deleteAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+      const attachmentId = req.params.attachmentId;
+
+      if (!workItemId || !attachmentId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_ATTACHMENT_ID',
+          message: 'Work item ID and attachment ID are required'
+        });
+        return;
+      }
+
+      await this.attachmentService.deleteAttachment(user, workItemId, attachmentId);
+
+      res.json({
+        success: true,
+        message: 'Attachment deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete attachment');
+    }
+  }
+
+  async getWorkItemHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user as User;
+      const workItemId = req.params.id;
+
+      if (!workItemId) {
+        res.status(400).json({
+          success: false,
+          error: 'MISSING_WORK_ITEM_ID',
+          message: 'Work item ID is required'
+        });
+        return;
+      }
+
+      const params = this.parseHistoryQuery(req.query);
+
+      const { entries, total } = await this.historyService.getHistory(user, workItemId, params);
+
+      res.json({
+        success: true,
+        data: entries,
+        meta: {
+          total,
+          limit: params.limit,
+          offset: params.offset
+        }
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get work item history');
+    }
+  }
+
+  private parseHistoryQuery(query: Request['query']): HistoryQueryParams {
+    const { value, error } = historyQuerySchema.validate({
+      ...query,
+      ...(typeof query.types === 'string' && { types: query.types.split(',') })
+    }, { stripUnknown: true, convert: true });
+
+    if (error) {
+      throw new Error(`INVALID_QUERY: ${error.message}`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Validate list query parameters. Multi-value filters accept comma-separated
+   * lists or repeated parameters; `metadata.<path>` keys filter on JSONB values.
+   */
+  private parseWorkItemQuery(query: Request['query']): WorkItemQueryParams {
+    const multiValueFields = ['type', 'status', 'priority', 'owner_id', 'created_by'];
+    const normalized: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(query)) {
+      const values = Array.isArray(value) ? value.map(String) : [String(value)];
+      if (multiValueFields.includes(key)) {
+        normalized[key] = values.flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean);
+      } else if (key.startsWith('metadata.')) {
+        normalized[key] = values;
+      } else {
+        normalized[key] = Array.isArray(value) ? values[values.length - 1] : value;
+      }
+    }
+
+    const { value, error } = workItemQuerySchema.validate(normalized, { stripUnknown: true, convert: true });
+    if (error) {
+      throw new Error(`INVALID_QUERY: ${error.message}`);
+    }
+
+    const metadata: Record<string, string[]> = {};
+    for (const [key, matches] of Object.entries(value)) {
+      if (key.startsWith('metadata.')) {
+        metadata[key.substring('metadata.'.length)] = matches as string[];
+      }
+    }
+
+    return {
+      type: value.type,
+      status: value.status,
+      priority: value.priority,
+      owner_id: value.owner_id,
+      created_by: value.created_by,
+      parent_id: value.parent_id,
+      search: value.search,
+      due_at: { from: value.due_at_from, to: value.due_at_to },
+      created_at: { from: value.created_at_from, to: value.created_at_to },
+      completed_at: { from: value.completed_at_from, to: value.completed_at_to },
+      overdue: value.overdue,
+      include_archived: value.include_archived,
+      metadata,
+      sort: value.sort,
+      cursor: value.cursor,
+      limit: value.limit,
+      offset: value.offset
+    };
+  }
+
+  private formatETag(workItem: WorkItem): string {
+    return `"${workItem.version}"`;
+  }
+
+  /**
+   * Versions named by If-Match, or undefined when the header is absent or
+   * `*`. Matching is strong, so weak (W/) tags never match.
+   */
+  private parseIfMatch(req: Request): number[] | undefined {
+    const header = req.get('If-Match');
+    if (!header || header.trim() === '*') {
+      return undefined;
+    }
+
+    return header
+      .split(',')
+      .map(tag => /^"(\d+)"$/.exec(tag.trim()))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10));
+  }
+
+  private parsePatch(req: Request): WorkItemPatch {
+    if (req.is('application/json-patch+json')) {
+      const { error } = jsonPatchSchema.validate(req.body);
+      if (error) {
+        throw new Error(`INVALID_PATCH: ${error.message}`);
+      }
+
+      const operations: JsonPatchOperation[] = req.body;
+      operations.forEach((operation, index) => this.validatePatchOperation(operation, index));
+
+      return { format: 'json-patch', operations };
+    }
+
+    if (req.is('application/merge-patch+json') || req.is('application/json')) {
+      const { error } = updateWorkItemSchema.required().validate(req.body);
+      if (error) {
+        throw new Error(`INVALID_PATCH: ${error.message}`);
+      }
+
+      return { format: 'merge-patch', document: req.body };
+    }
+
+    throw new Error(`UNSUPPORTED_MEDIA_TYPE: PATCH accepts ${PATCH_MEDIA_TYPES.join(' or ')}`);
+  }
+
+  /**
+   * Check an operation's target against the update schema. Values written to
+   * a top-level field must be valid for it; anything below `metadata` is free.
+   */
+  private validatePatchOperation(operation: JsonPatchOperation, index: number): void {
+    const fail: (reason: string) => never = (reason) => {
+      throw new Error(`INVALID_PATCH: ${reason} (operation ${index}: ${operation.op} ${operation.path})`);
+    };
+
+    const [field, ...rest] = operation.path.split('/').slice(1);
+    if (field === undefined) {
+      fail('The whole work item cannot be targeted');
+    }
+    if (!updateWorkItemSchema.describe().keys[field]) {
+      fail(`${field} cannot be patched`);
+    }
+    if (rest.length > 0 && field !== 'metadata') {
+      fail('Only metadata has nested members');
+    }
+
+    if (operation.op === 'move' || operation.op === 'copy') {
+      const within = (pointer: string) => pointer.startsWith('/metadata/');
+      if (!within(operation.path) || !within(operation.from)) {
+        fail('move and copy are only allowed within metadata');
+      }
+      return;
+    }
+
+    if (rest.length > 0 || operation.op === 'test') {
+      return;
+    }
+
+    const value = 'value' in operation ? operation.value : null;
+    const { error } = updateWorkItemSchema.validate({ [field]: value });
+    if (error) {
+      fail(error.message);
+    }
+  }
+
+  private parseUpload(req: Request, res: Response): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.upload(req, res, (error?: unknown) => {
+        if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+          reject(new Error(`ATTACHMENT_TOO_LARGE: Maximum attachment size is ${this.attachmentService.maxBytes} bytes`));
+        } else if (error instanceof multer.MulterError) {
+          reject(new Error(`INVALID_UPLOAD: ${error.message}`));
+        } else if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    const failure = error instanceof Error ? error : undefined;
+    this.logger.error(message, { error: failure?.message ?? String(error), stack: failure?.stack });
+
+    const { statusCode, errorCode } = this.classifyError(getErrorCode(error));
+
+    res.status(statusCode).json({
+      success: false,
+      error: errorCode,
+      message: failure?.message || message,
+      ...(error instanceof ServiceError && { details: error.details }),
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Map an error code to its HTTP status. Codes come from the start of the
+   * error message only (see getErrorCode), never from text inside it.
+   */
+  private classifyError(code?: string): { statusCode: number; errorCode: string } {
+    if (!code) {
+      return { statusCode: 500, errorCode: 'INTERNAL_ERROR' };
+    }
+    if (ERROR_STATUS_CODES[code]) {
+      return { statusCode: ERROR_STATUS_CODES[code], errorCode: code };
+    }
+    if (code.endsWith('NOT_FOUND')) {
+      return { statusCode: 404, errorCode: 'NOT_FOUND' };
+    }
+    if (code.startsWith('INVALID_')) {
+      return { statusCode: 400, errorCode: 'INVALID_REQUEST' };
+    }
+
+    return { statusCode: 500, errorCode: 'INTERNAL_ERROR' };
   }
 }
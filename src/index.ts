@@ -8,13 +8,32 @@ import rateLimit from 'express-rate-limit';
 import { config } from 'dotenv';
 
 import { DatabaseService } from './services/databaseService';
-import { MessageQueueService } from './services/messageQueueService';
+import { MigrationService } from './services/migrationService';
+import { createMessageQueue } from './services/messageQueueService';
+import { EventOutboxService } from './services/eventOutboxService';
+import { OutboxRelayService } from './services/outboxRelayService';
+import { RetentionService } from './services/retentionService';
+import { EventConsumerService } from './services/eventConsumerService';
+import { UserDeactivatedHandler } from './consumers/userDeactivatedHandler';
+import { TenantDeletedHandler } from './consumers/tenantDeletedHandler';
 import { CedarAuthService } from './services/cedarAuthService';
 import { WorkItemService } from './services/workItemService';
+import { WorkflowService } from './services/workflowService';
+import { DependencyService } from './services/dependencyService';
+import { CommentService } from './services/commentService';
+import { AttachmentService } from './services/attachmentService';
+import { HistoryService } from './services/historyService';
+import { BulkService } from './services/bulkService';
+import { ApiKeyService } from './services/apiKeyService';
+import { createBlobStorage } from './services/blobStorageService';
 import { WorkItemController } from './controllers/workItemController';
+import { AuthzController } from './controllers/authzController';
+import { ApiKeyController } from './controllers/apiKeyController';
 import { LoggerService } from './services/loggerService';
-import { authMiddleware } from './middleware/authMiddleware';
+import { AuthMiddleware } from './middleware/authMiddleware';
+import { tenantContextMiddleware } from './middleware/tenantContextMiddleware';
 import { DemoDataInstaller } from './scripts/install-demo-data';
+import { BlobStorageAdapter, MessageQueueConnection } from './types';
 
 // Load environment variables
 config();
@@ -23,10 +42,26 @@ class WorkItemApp {
   private app: express.Application;
   private logger: LoggerService;
   private db!: DatabaseService;
-  private messageQueue!: MessageQueueService;
+  private migrations!: MigrationService;
+  private messageQueue!: MessageQueueConnection;
+  private outbox!: EventOutboxService;
+  private outboxRelay!: OutboxRelayService;
+  private retention!: RetentionService;
+  private eventConsumers!: EventConsumerService;
+  private blobStorage!: BlobStorageAdapter;
   private cedarAuth!: CedarAuthService;
+  private workflowService!: WorkflowService;
   private workItemService!: WorkItemService;
+  private dependencyService!: DependencyService;
+  private commentService!: CommentService;
+  private attachmentService!: AttachmentService;
+  private historyService!: HistoryService;
+  private bulkService!: BulkService;
+  private apiKeyService!: ApiKeyService;
+  private auth!: AuthMiddleware;
   private workItemController!: WorkItemController;
+  private authzController!: AuthzController;
+  private apiKeyController!: ApiKeyController;
 
   constructor() {
     this.app = express();
@@ -40,10 +75,42 @@ class WorkItemApp {
 
   private initializeServices(): void {
     this.db = new DatabaseService();
-    this.messageQueue = new MessageQueueService();
+    this.migrations = new MigrationService(this.db);
+    this.messageQueue = createMessageQueue();
+    this.outbox = new EventOutboxService();
+    this.outboxRelay = new OutboxRelayService(this.db, this.messageQueue);
+    this.blobStorage = createBlobStorage();
+    this.retention = new RetentionService(this.db, this.outbox, this.blobStorage);
     this.cedarAuth = new CedarAuthService();
-    this.workItemService = new WorkItemService(this.db, this.messageQueue, this.cedarAuth);
-    this.workItemController = new WorkItemController(this.workItemService);
+    this.workflowService = new WorkflowService();
+    this.workItemService = new WorkItemService(this.db, this.outbox, this.cedarAuth, this.workflowService);
+    this.dependencyService = new DependencyService(this.db, this.outbox, this.cedarAuth, this.workItemService);
+    this.commentService = new CommentService(this.db, this.outbox, this.cedarAuth, this.workItemService);
+    this.attachmentService = new AttachmentService(
+      this.db,
+      this.outbox,
+      this.cedarAuth,
+      this.workItemService,
+      this.blobStorage
+    );
+    this.historyService = new HistoryService(this.db, this.workItemService);
+    this.bulkService = new BulkService(this.db, this.workItemService, this.cedarAuth);
+    this.apiKeyService = new ApiKeyService(this.db);
+    this.auth = new AuthMiddleware(this.apiKeyService);
+    this.eventConsumers = new EventConsumerService(this.db, this.messageQueue);
+    this.eventConsumers.register(new UserDeactivatedHandler(this.outbox));
+    this.eventConsumers.register(new TenantDeletedHandler(this.blobStorage));
+
+    this.workItemController = new WorkItemController(
+      this.workItemService,
+      this.dependencyService,
+      this.commentService,
+      this.attachmentService,
+      this.historyService,
+      this.bulkService
+    );
+    this.authzController = new AuthzController(this.cedarAuth, this.workItemService);
+    this.apiKeyController = new ApiKeyController(this.apiKeyService);
   }
 
   private setupMiddleware(): void {
@@ -68,7 +135,8 @@ class WorkItemApp {
       ],
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'If-Match'],
+      exposedHeaders: ['ETag', 'Accept-Patch']
     }));
 
     // Rate limiting
@@ -83,7 +151,10 @@ class WorkItemApp {
     }));
 
     // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({
+      limit: '10mb',
+      type: ['application/json', 'application/json-patch+json', 'application/merge-patch+json']
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Compression
@@ -114,15 +185,45 @@ class WorkItemApp {
 
     // API routes with authentication
     const apiRouter = express.Router();
-    apiRouter.use(authMiddleware);
+    apiRouter.use(this.auth.authenticate.bind(this.auth));
+    apiRouter.use(tenantContextMiddleware);
 
     // Work item routes
     apiRouter.post('/work-items', this.workItemController.createWorkItem.bind(this.workItemController));
+    apiRouter.post('/work-items/bulk', this.workItemController.bulkWorkItems.bind(this.workItemController));
     apiRouter.get('/work-items', this.workItemController.getWorkItems.bind(this.workItemController));
     apiRouter.get('/work-items/:id', this.workItemController.getWorkItem.bind(this.workItemController));
     apiRouter.put('/work-items/:id', this.workItemController.updateWorkItem.bind(this.workItemController));
+    apiRouter.patch('/work-items/:id', this.workItemController.patchWorkItem.bind(this.workItemController));
     apiRouter.delete('/work-items/:id', this.workItemController.deleteWorkItem.bind(this.workItemController));
     apiRouter.get('/work-items/:id/lineage', this.workItemController.getWorkItemLineage.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/tree', this.workItemController.getWorkItemTree.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/ancestors', this.workItemController.getWorkItemAncestors.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/move', this.workItemController.moveWorkItem.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/archive', this.workItemController.archiveWorkItem.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/restore', this.workItemController.restoreWorkItem.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/links', this.workItemController.createLineageLink.bind(this.workItemController));
+    apiRouter.delete('/work-items/:id/links/:linkId', this.workItemController.deleteLineageLink.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/history', this.workItemController.getWorkItemHistory.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/dependencies', this.workItemController.createDependency.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/dependencies', this.workItemController.getDependencies.bind(this.workItemController));
+    apiRouter.delete('/work-items/:id/dependencies/:dependencyId', this.workItemController.deleteDependency.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/comments', this.workItemController.createComment.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/comments', this.workItemController.getComments.bind(this.workItemController));
+    apiRouter.put('/work-items/:id/comments/:commentId', this.workItemController.updateComment.bind(this.workItemController));
+    apiRouter.delete('/work-items/:id/comments/:commentId', this.workItemController.deleteComment.bind(this.workItemController));
+    apiRouter.post('/work-items/:id/attachments', this.workItemController.uploadAttachment.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/attachments', this.workItemController.getAttachments.bind(this.workItemController));
+    apiRouter.get('/work-items/:id/attachments/:attachmentId/download', this.workItemController.downloadAttachment.bind(this.workItemController));
+    apiRouter.delete('/work-items/:id/attachments/:attachmentId', this.workItemController.deleteAttachment.bind(this.workItemController));
+
+    // Authorization debugging (admin only)
+    apiRouter.post('/authz/explain', this.authzController.explain.bind(this.authzController));
+
+    // Service API keys (admin only)
+    apiRouter.post('/api-keys', this.apiKeyController.createApiKey.bind(this.apiKeyController));
+    apiRouter.get('/api-keys', this.apiKeyController.listApiKeys.bind(this.apiKeyController));
+    apiRouter.delete('/api-keys/:id', this.apiKeyController.revokeApiKey.bind(this.apiKeyController));
     
     // Demo data installation endpoint (with safety checks)
     apiRouter.post('/install-demo-data', async (req, res) => {
@@ -140,7 +241,7 @@ class WorkItemApp {
         }
 
         this.logger.info('Demo data installation requested', { 
-          user: (req as any).user?.id || 'unknown',
+          user: req.user?.id || 'unknown',
           timestamp: new Date().toISOString()
         });
 
@@ -148,12 +249,13 @@ class WorkItemApp {
         const result = await installer.installDemoData();
         
         return res.json(result);
-      } catch (error: any) {
-        this.logger.error('Demo data installation failed:', { error: error.message || error });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : undefined;
+        this.logger.error('Demo data installation failed:', { error: message || error });
         return res.status(500).json({
           success: false,
           error: 'INSTALLATION_FAILED',
-          message: 'Failed to install demo data: ' + (error?.message || 'Unknown error')
+          message: 'Failed to install demo data: ' + (message || 'Unknown error')
         });
       }
     });
@@ -206,14 +308,30 @@ class WorkItemApp {
 
   async start(): Promise<void> {
     try {
-      // Initialize database
-      await this.db.initialize();
-      this.logger.info('Database initialized successfully');
+      // Refuse to run without a real token verification key
+      this.auth.assertConfigured();
+
+      // Apply pending migrations when asked to; otherwise refuse an outdated schema
+      if (process.env.MIGRATE_ON_START === 'true') {
+        await this.migrations.up();
+      } else {
+        await this.migrations.assertUpToDate();
+      }
+      this.logger.info('Database schema is up to date');
 
       // Connect to message queue
       await this.messageQueue.connect();
       this.logger.info('Message queue connected successfully');
 
+      // Relay events committed to the outbox
+      this.outboxRelay.start();
+
+      // Hard-purge soft-deleted work items past the retention window
+      this.retention.start();
+
+      // React to events from other services
+      await this.eventConsumers.start();
+
       // Start server
       const port = process.env.PORT || 3004;
       this.app.listen(port, () => {
@@ -230,6 +348,9 @@ class WorkItemApp {
     this.logger.info('Shutting down Work Item Service...');
     
     try {
+      this.outboxRelay.stop();
+      this.retention.stop();
+      await this.eventConsumers.stop();
       await this.db.close();
       await this.messageQueue.close();
       this.logger.info('Work Item Service shutdown complete');
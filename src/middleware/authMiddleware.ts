@@ -1,10 +1,23 @@
 // Authentication Middleware for Work Item Service
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { KeyObject } from 'crypto';
+import jwt, { Algorithm } from 'jsonwebtoken';
 import { LoggerService } from '../services/loggerService';
+import { JwksKeyStore } from '../services/jwksService';
+import { API_KEY_PREFIX, ApiKeyService } from '../services/apiKeyService';
 import { User } from '../types';
 
+const DEFAULT_JWT_SECRET = 'default-secret-change-in-production';
+const SHARED_SECRET_ALGORITHMS: Algorithm[] = ['HS256', 'HS384', 'HS512'];
+
+type NonEmptyList = [string, ...string[]];
+
+const parseList = (value?: string): NonEmptyList | undefined => {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items as NonEmptyList : undefined;
+};
+
 interface JwtPayload {
   sub: string;
   email: string;
@@ -12,15 +25,42 @@ interface JwtPayload {
   roles: string[];
   type: string;
   exp: number;
+  // Space-separated OAuth scopes on client-credential (`type: 'service'`) tokens
+  scope?: string;
 }
 
 export class AuthMiddleware {
   private logger: LoggerService;
-  private jwtSecret: string;
+  private apiKeys: ApiKeyService | null;
+  private jwtSecret: string | null;
+  private jwks: JwksKeyStore | null;
+  private algorithms: Algorithm[];
+  private issuer?: NonEmptyList;
+  private audience?: NonEmptyList;
 
-  constructor() {
+  constructor(apiKeys?: ApiKeyService) {
     this.logger = new LoggerService();
-    this.jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+    this.apiKeys = apiKeys || null;
+
+    // The well-known default secret is only honoured outside production
+    const secret = process.env.JWT_SECRET || DEFAULT_JWT_SECRET;
+    this.jwtSecret = secret === DEFAULT_JWT_SECRET && process.env.NODE_ENV === 'production' ? null : secret;
+
+    const jwksSource = process.env.JWT_JWKS_URL || process.env.JWT_JWKS_PATH;
+    this.jwks = jwksSource ? new JwksKeyStore({ source: jwksSource }) : null;
+    this.algorithms = (parseList(process.env.JWT_ALGORITHMS) || ['RS256', 'ES256']) as Algorithm[];
+    this.issuer = parseList(process.env.JWT_ISSUER);
+    this.audience = parseList(process.env.JWT_AUDIENCE);
+  }
+
+  /**
+   * Throw when no usable verification key is configured, i.e. in production
+   * with neither a JWKS nor an explicit JWT_SECRET.
+   */
+  assertConfigured(): void {
+    if (!this.jwtSecret && !this.jwks) {
+      throw new Error('Refusing to start: configure JWT_JWKS_URL, JWT_JWKS_PATH or a non-default JWT_SECRET');
+    }
   }
 
   async authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -51,11 +91,34 @@ export class AuthMiddleware {
           tenant_id: '00000000-0000-0000-0000-000000000001',
           roles: ['CEO', 'admin', 'user']
         };
-        (req as any).user = user;
+        req.user = user;
         this.logger.debug('Demo user authenticated', { userId: user.id });
         return next();
       }
 
+      // Service API keys are opaque and looked up rather than verified
+      if (token.startsWith(API_KEY_PREFIX)) {
+        const service = this.apiKeys ? await this.apiKeys.authenticate(token) : null;
+
+        if (!service) {
+          res.status(401).json({
+            success: false,
+            error: 'INVALID_API_KEY',
+            message: 'API key is invalid, expired or revoked',
+            timestamp: new Date()
+          });
+          return;
+        }
+
+        req.user = service;
+        this.logger.debug('Service authenticated with API key', {
+          apiKeyId: service.id,
+          tenantId: service.tenant_id,
+          scopes: service.scopes
+        });
+        return next();
+      }
+
       // Verify and decode token
       const decoded = await this.verifyToken(token);
       
@@ -70,20 +133,30 @@ export class AuthMiddleware {
       }
 
       // Set user context in request
-      const user: User = {
-        id: decoded.sub,
-        email: decoded.email,
-        tenant_id: decoded.tenant_id,
-        roles: decoded.roles
-      };
+      const user: User = decoded.type === 'service'
+        ? {
+            id: decoded.sub,
+            email: '',
+            tenant_id: decoded.tenant_id,
+            roles: [],
+            principal_type: 'service',
+            scopes: (decoded.scope || '').split(' ').filter(Boolean)
+          }
+        : {
+            id: decoded.sub,
+            email: decoded.email,
+            tenant_id: decoded.tenant_id,
+            roles: decoded.roles
+          };
 
-      (req as any).user = user;
+      req.user = user;
 
       this.logger.debug('User authenticated', {
         userId: user.id,
         email: user.email,
         tenantId: user.tenant_id,
-        roles: user.roles
+        roles: user.roles,
+        scopes: user.scopes
       });
 
       next();
@@ -105,6 +178,12 @@ export class AuthMiddleware {
   }
 
   private extractToken(req: Request): string | null {
+    // Check API key header
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return apiKey;
+    }
+
     // Check Authorization header
     const authHeader = req.headers.authorization;
     if (authHeader && authHeader.startsWith('Bearer ')) {
@@ -128,7 +207,37 @@ export class AuthMiddleware {
 
   private async verifyToken(token: string): Promise<JwtPayload | null> {
     try {
-      const decoded = jwt.verify(token, this.jwtSecret) as JwtPayload;
+      const header = jwt.decode(token, { complete: true })?.header;
+      if (!header) {
+        this.logger.warn('Token could not be decoded');
+        return null;
+      }
+
+      // Pick the key by algorithm family so an HS token can never be checked against a public key
+      let key: string | KeyObject;
+      let algorithms: Algorithm[];
+
+      if (SHARED_SECRET_ALGORITHMS.includes(header.alg as Algorithm)) {
+        if (!this.jwtSecret) {
+          this.logger.warn('Shared-secret token rejected; no JWT_SECRET configured', { alg: header.alg });
+          return null;
+        }
+        key = this.jwtSecret;
+        algorithms = SHARED_SECRET_ALGORITHMS;
+      } else {
+        if (!this.jwks) {
+          this.logger.warn('Asymmetric token rejected; no JWKS configured', { alg: header.alg });
+          return null;
+        }
+        key = await this.jwks.getKey(header.kid);
+        algorithms = this.algorithms;
+      }
+
+      const decoded = jwt.verify(token, key, {
+        algorithms,
+        issuer: this.issuer,
+        audience: this.audience
+      }) as JwtPayload;
       
       // Check if token is expired
       if (decoded.exp && Date.now() >= decoded.exp * 1000) {
@@ -136,12 +245,18 @@ export class AuthMiddleware {
         return null;
       }
 
-      // Check if token type is access token
-      if (decoded.type !== 'access') {
+      // Accept user access tokens and client-credential service tokens
+      if (decoded.type !== 'access' && decoded.type !== 'service') {
         this.logger.warn('Invalid token type', { userId: decoded.sub, type: decoded.type });
         return null;
       }
 
+      // Machine credentials are always bound to a single tenant
+      if (decoded.type === 'service' && !decoded.tenant_id) {
+        this.logger.warn('Service token without tenant', { clientId: decoded.sub });
+        return null;
+      }
+
       return decoded;
 
     } catch (error) {
@@ -150,7 +265,3 @@ export class AuthMiddleware {
     }
   }
 }
-
-// Export middleware function
-const authMiddleware = new AuthMiddleware().authenticate.bind(new AuthMiddleware());
-export { authMiddleware };
@@ -0,0 +1,19 @@
+// Tenant Context Middleware - scopes the rest of the request to the caller's tenant
+
+import { Request, Response, NextFunction } from 'express';
+import { runWithTenant } from '../services/tenantContext';
+
+/**
+ * Must run after authentication. Every database transaction issued while
+ * handling the request then carries the caller's tenant for row-level
+ * security; unauthenticated paths get no scope and see no tenant rows.
+ */
+export function tenantContextMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  const user = req.user;
+
+  if (!user) {
+    return next();
+  }
+
+  runWithTenant(user.tenant_id, next);
+}
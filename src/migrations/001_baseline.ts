@@ -0,0 +1,177 @@
+// Baseline schema: work items, lineage, status history, attachments, comments and dependencies.
+// Written with IF NOT EXISTS so databases created by the old boot-time bootstrap can adopt it.
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS work_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('objective', 'strategy', 'initiative', 'task', 'subtask')),
+        title VARCHAR(500) NOT NULL,
+        description TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'planned', 'in_progress', 'blocked', 'review', 'completed', 'cancelled')),
+        priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('critical', 'high', 'medium', 'low')),
+        created_by UUID NOT NULL,
+        owner_id UUID NOT NULL,
+        due_at TIMESTAMPTZ,
+        started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        metadata JSONB DEFAULT '{}'::jsonb
+      );
+
+      CREATE TABLE IF NOT EXISTS lineage_edges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        parent_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        child_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        relation_type VARCHAR(20) NOT NULL DEFAULT 'contains' CHECK (relation_type IN ('contains', 'supports', 'derived_from')),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        created_by UUID NOT NULL,
+        UNIQUE(parent_id, child_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS status_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        work_item_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        from_status VARCHAR(20),
+        to_status VARCHAR(20) NOT NULL,
+        changed_by UUID NOT NULL,
+        changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        reason TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS attachments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        work_item_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        filename VARCHAR(255) NOT NULL,
+        uri TEXT NOT NULL,
+        size_bytes INTEGER,
+        mime_type VARCHAR(100),
+        checksum VARCHAR(64),
+        uploaded_by UUID NOT NULL,
+        uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS comments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        work_item_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        author_id UUID NOT NULL,
+        body TEXT NOT NULL,
+        mentions TEXT[] DEFAULT ARRAY[]::TEXT[],
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS dependency_edges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        from_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        to_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        dependency_type VARCHAR(20) NOT NULL DEFAULT 'finish_to_start' CHECK (dependency_type IN ('finish_to_start', 'start_to_start', 'finish_to_finish', 'start_to_finish')),
+        lag_days INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        created_by UUID NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        metadata JSONB DEFAULT '{}'::jsonb,
+        UNIQUE(from_id, to_id),
+        CONSTRAINT no_self_dependency CHECK (from_id != to_id)
+      );
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_work_items_tenant_id ON work_items(tenant_id);
+      CREATE INDEX IF NOT EXISTS idx_work_items_type ON work_items(type);
+      CREATE INDEX IF NOT EXISTS idx_work_items_status ON work_items(status);
+      CREATE INDEX IF NOT EXISTS idx_work_items_owner_id ON work_items(owner_id);
+      CREATE INDEX IF NOT EXISTS idx_work_items_created_by ON work_items(created_by);
+      CREATE INDEX IF NOT EXISTS idx_work_items_due_at ON work_items(due_at);
+      CREATE INDEX IF NOT EXISTS idx_work_items_created_at ON work_items(created_at);
+      CREATE INDEX IF NOT EXISTS idx_work_items_title_search ON work_items USING gin(to_tsvector('english', title));
+      CREATE INDEX IF NOT EXISTS idx_work_items_description_search ON work_items USING gin(to_tsvector('english', description));
+      CREATE INDEX IF NOT EXISTS idx_lineage_edges_tenant_id ON lineage_edges(tenant_id);
+      CREATE INDEX IF NOT EXISTS idx_lineage_edges_parent_id ON lineage_edges(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_lineage_edges_child_id ON lineage_edges(child_id);
+      CREATE INDEX IF NOT EXISTS idx_status_history_work_item_id ON status_history(work_item_id);
+      CREATE INDEX IF NOT EXISTS idx_status_history_changed_at ON status_history(changed_at);
+      CREATE INDEX IF NOT EXISTS idx_attachments_work_item_id ON attachments(work_item_id);
+      CREATE INDEX IF NOT EXISTS idx_comments_work_item_id ON comments(work_item_id);
+      CREATE INDEX IF NOT EXISTS idx_comments_author_id ON comments(author_id);
+      CREATE INDEX IF NOT EXISTS idx_dependency_edges_tenant_id ON dependency_edges(tenant_id);
+      CREATE INDEX IF NOT EXISTS idx_dependency_edges_from_id ON dependency_edges(from_id);
+      CREATE INDEX IF NOT EXISTS idx_dependency_edges_to_id ON dependency_edges(to_id);
+      CREATE INDEX IF NOT EXISTS idx_dependency_edges_type ON dependency_edges(dependency_type);
+    `);
+
+    // Executive role checks happen at service level; kept for policies that reference it
+    await client.query(`
+      CREATE OR REPLACE FUNCTION has_exec_role(user_id UUID, tenant_id UUID)
+      RETURNS BOOLEAN AS $$
+      BEGIN
+        RETURN FALSE;
+      END;
+      $$ LANGUAGE plpgsql SECURITY DEFINER;
+    `);
+
+    // Lineage is enforced at service level since roles can't be checked reliably from a trigger
+    await client.query(`
+      CREATE OR REPLACE FUNCTION enforce_lineage()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS trigger_enforce_lineage ON work_items;
+      CREATE TRIGGER trigger_enforce_lineage
+        BEFORE INSERT ON work_items
+        FOR EACH ROW
+        EXECUTE FUNCTION enforce_lineage();
+    `);
+
+    await client.query(`
+      CREATE OR REPLACE FUNCTION update_updated_at_column()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS trigger_work_items_updated_at ON work_items;
+      CREATE TRIGGER trigger_work_items_updated_at
+        BEFORE UPDATE ON work_items
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS trigger_comments_updated_at ON comments;
+      CREATE TRIGGER trigger_comments_updated_at
+        BEFORE UPDATE ON comments
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS dependency_edges;
+      DROP TABLE IF EXISTS comments;
+      DROP TABLE IF EXISTS attachments;
+      DROP TABLE IF EXISTS status_history;
+      DROP TABLE IF EXISTS lineage_edges;
+      DROP TABLE IF EXISTS work_items;
+      DROP FUNCTION IF EXISTS update_updated_at_column();
+      DROP FUNCTION IF EXISTS enforce_lineage();
+      DROP FUNCTION IF EXISTS has_exec_role(UUID, UUID);
+    `);
+  }
+};
@@ -0,0 +1,28 @@
+// Field and lineage change log behind the history timeline
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'work_item_changes',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS work_item_changes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        work_item_id UUID NOT NULL REFERENCES work_items(id) ON DELETE CASCADE,
+        change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('fields', 'lineage')),
+        data JSONB NOT NULL DEFAULT '{}'::jsonb,
+        changed_by UUID NOT NULL,
+        changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_work_item_changes_work_item_id ON work_item_changes(work_item_id, changed_at);
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS work_item_changes;');
+  }
+};
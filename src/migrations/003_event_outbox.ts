@@ -0,0 +1,32 @@
+// Transactional outbox relayed to the message queue
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 3,
+  name: 'event_outbox',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS event_outbox (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        exchange VARCHAR(100) NOT NULL,
+        routing_key VARCHAR(255) NOT NULL,
+        payload JSONB NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        published_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_outbox_pending ON event_outbox(next_attempt_at, created_at) WHERE published_at IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_event_outbox_published_at ON event_outbox(published_at) WHERE published_at IS NOT NULL;
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS event_outbox;');
+  }
+};
@@ -0,0 +1,25 @@
+// Idempotency keys for consumed events
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'processed_events',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS processed_events (
+        handler VARCHAR(100) NOT NULL,
+        idempotency_key VARCHAR(255) NOT NULL,
+        processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (handler, idempotency_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_processed_events_processed_at ON processed_events(processed_at);
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS processed_events;');
+  }
+};
@@ -0,0 +1,28 @@
+// Archive markers for work item subtrees
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'work_item_archive',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE work_items
+        ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS archived_by UUID;
+
+      CREATE INDEX IF NOT EXISTS idx_work_items_archived_at ON work_items(archived_at) WHERE archived_at IS NOT NULL;
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP INDEX IF EXISTS idx_work_items_archived_at;
+
+      ALTER TABLE work_items
+        DROP COLUMN IF EXISTS archived_by,
+        DROP COLUMN IF EXISTS archived_at;
+    `);
+  }
+};
@@ -0,0 +1,28 @@
+// Soft-delete markers; rows are hard-purged after the retention window
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'work_item_soft_delete',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE work_items
+        ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+      CREATE INDEX IF NOT EXISTS idx_work_items_deleted_at ON work_items(deleted_at) WHERE deleted_at IS NOT NULL;
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP INDEX IF EXISTS idx_work_items_deleted_at;
+
+      ALTER TABLE work_items
+        DROP COLUMN IF EXISTS deleted_by,
+        DROP COLUMN IF EXISTS deleted_at;
+    `);
+  }
+};
@@ -0,0 +1,33 @@
+// Hashed, revocable API keys for service principals
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'service_api_keys',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS service_api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        key_prefix VARCHAR(32) NOT NULL UNIQUE,
+        key_hash CHAR(64) NOT NULL,
+        scopes TEXT[] NOT NULL,
+        created_by UUID NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ,
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ,
+        revoked_by UUID
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_service_api_keys_tenant_id ON service_api_keys(tenant_id);
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS service_api_keys;');
+  }
+};
@@ -0,0 +1,68 @@
+// Row-level security on tenant tables, keyed on the transaction-local
+// app.tenant_id setting (see services/tenantContext). FORCE makes the policies
+// apply to the table owner the service connects as; superusers still bypass them.
+
+import { Migration } from '../types';
+
+const TENANT_TABLES = [
+  'work_items',
+  'lineage_edges',
+  'status_history',
+  'attachments',
+  'comments',
+  'dependency_edges',
+  'work_item_changes'
+];
+
+const TENANT_PREDICATE = `
+  current_setting('app.bypass_rls', true) = 'on'
+  OR tenant_id = NULLIF(current_setting('app.tenant_id', true), '')::uuid
+`;
+
+export const migration: Migration = {
+  version: 8,
+  name: 'row_level_security',
+
+  async up(client) {
+    // status_history predates tenant columns; backfill from the owning work item
+    await client.query(`
+      ALTER TABLE status_history ADD COLUMN IF NOT EXISTS tenant_id UUID;
+
+      UPDATE status_history sh
+      SET tenant_id = wi.tenant_id
+      FROM work_items wi
+      WHERE wi.id = sh.work_item_id AND sh.tenant_id IS NULL;
+
+      ALTER TABLE status_history ALTER COLUMN tenant_id SET NOT NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_status_history_tenant_id ON status_history(tenant_id);
+    `);
+
+    for (const table of TENANT_TABLES) {
+      await client.query(`
+        ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;
+        ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;
+
+        DROP POLICY IF EXISTS tenant_isolation ON ${table};
+        CREATE POLICY tenant_isolation ON ${table}
+          USING (${TENANT_PREDICATE})
+          WITH CHECK (${TENANT_PREDICATE});
+      `);
+    }
+  },
+
+  async down(client) {
+    for (const table of TENANT_TABLES) {
+      await client.query(`
+        DROP POLICY IF EXISTS tenant_isolation ON ${table};
+        ALTER TABLE ${table} NO FORCE ROW LEVEL SECURITY;
+        ALTER TABLE ${table} DISABLE ROW LEVEL SECURITY;
+      `);
+    }
+
+    await client.query(`
+      DROP INDEX IF EXISTS idx_status_history_tenant_id;
+      ALTER TABLE status_history DROP COLUMN IF EXISTS tenant_id;
+    `);
+  }
+};
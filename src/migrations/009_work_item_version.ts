@@ -0,0 +1,36 @@
+// Row version for optimistic concurrency (ETag / If-Match), bumped on every update
+
+import { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'work_item_version',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE work_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+      CREATE OR REPLACE FUNCTION increment_version_column()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.version = OLD.version + 1;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS trigger_work_items_version ON work_items;
+      CREATE TRIGGER trigger_work_items_version
+        BEFORE UPDATE ON work_items
+        FOR EACH ROW
+        EXECUTE FUNCTION increment_version_column();
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TRIGGER IF EXISTS trigger_work_items_version ON work_items;
+      DROP FUNCTION IF EXISTS increment_version_column();
+      ALTER TABLE work_items DROP COLUMN IF EXISTS version;
+    `);
+  }
+};
@@ -0,0 +1,25 @@
+// Ordered registry of schema migrations. Append new migrations here; never
+// renumber or edit one that has shipped.
+
+import { Migration } from '../types';
+import { migration as baseline } from './001_baseline';
+import { migration as workItemChanges } from './002_work_item_changes';
+import { migration as eventOutbox } from './003_event_outbox';
+import { migration as processedEvents } from './004_processed_events';
+import { migration as workItemArchive } from './005_work_item_archive';
+import { migration as workItemSoftDelete } from './006_work_item_soft_delete';
+import { migration as serviceApiKeys } from './007_service_api_keys';
+import { migration as rowLevelSecurity } from './008_row_level_security';
+import { migration as workItemVersion } from './009_work_item_version';
+
+export const migrations: Migration[] = [
+  baseline,
+  workItemChanges,
+  eventOutbox,
+  processedEvents,
+  workItemArchive,
+  workItemSoftDelete,
+  serviceApiKeys,
+  rowLevelSecurity,
+  workItemVersion
+];
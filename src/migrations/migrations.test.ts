@@ -0,0 +1,106 @@
+import { migrations } from '.';
+import { DatabaseService } from '../services/databaseService';
+import { MigrationService } from '../services/migrationService';
+
+jest.mock('../services/loggerService');
+
+// Runs against a real, disposable PostgreSQL database: every migration is
+// reverted, so never point TEST_POSTGRES_DB at a database you want to keep.
+// The usual POSTGRES_HOST/PORT/USER/PASSWORD settings apply.
+const describeWithDatabase = process.env.TEST_POSTGRES_DB ? describe : describe.skip;
+
+const SCHEMA_QUERIES = {
+  columns: `
+    SELECT table_name, column_name, data_type, is_nullable, column_default
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name <> 'schema_migrations'
+    ORDER BY table_name, column_name;
+  `,
+  indexes: `
+    SELECT indexname, indexdef FROM pg_indexes
+    WHERE schemaname = 'public' AND tablename <> 'schema_migrations'
+    ORDER BY indexname;
+  `,
+  constraints: `
+    SELECT c.conrelid::regclass::text AS table_name, c.conname, pg_get_constraintdef(c.oid) AS definition
+    FROM pg_constraint c JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE n.nspname = 'public' AND c.conrelid <> 'schema_migrations'::regclass
+    ORDER BY table_name, c.conname;
+  `,
+  row_security: `
+    SELECT relname, relrowsecurity, relforcerowsecurity FROM pg_class
+    WHERE relnamespace = 'public'::regnamespace AND relkind = 'r' AND relname <> 'schema_migrations'
+    ORDER BY relname;
+  `,
+  policies: `
+    SELECT tablename, policyname, qual, with_check FROM pg_policies
+    WHERE schemaname = 'public'
+    ORDER BY tablename, policyname;
+  `,
+  triggers: `
+    SELECT tgrelid::regclass::text AS table_name, tgname FROM pg_trigger
+    WHERE NOT tgisinternal
+    ORDER BY table_name, tgname;
+  `,
+  functions: `
+    SELECT p.proname, pg_get_function_identity_arguments(p.oid) AS arguments
+    FROM pg_proc p
+    LEFT JOIN pg_depend d ON d.objid = p.oid AND d.deptype = 'e'
+    WHERE p.pronamespace = 'public'::regnamespace AND d.objid IS NULL
+    ORDER BY p.proname, arguments;
+  `
+};
+
+describeWithDatabase('migrations against PostgreSQL', () => {
+  let db: DatabaseService;
+  let service: MigrationService;
+
+  const snapshot = async (): Promise<Record<string, unknown[]>> => {
+    const schema: Record<string, unknown[]> = {};
+    for (const [name, query] of Object.entries(SCHEMA_QUERIES)) {
+      schema[name] = (await db.query(query)).rows;
+    }
+    return schema;
+  };
+
+  beforeAll(async () => {
+    process.env.POSTGRES_DB = process.env.TEST_POSTGRES_DB;
+    db = new DatabaseService();
+    service = new MigrationService(db);
+    await service.down({ target: 0 });
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('reverts each migration to exactly the schema it started from', async () => {
+    for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+      const before = await snapshot();
+
+      await service.up(migration.version);
+      const after = await snapshot();
+      expect(after).not.toEqual(before);
+
+      await service.down({ steps: 1 });
+      expect({ version: migration.version, schema: await snapshot() }).toEqual({ version: migration.version, schema: before });
+
+      await service.up(migration.version);
+      expect(await snapshot()).toEqual(after);
+    }
+  });
+
+  it('reverts everything and applies it all again', async () => {
+    await service.up();
+    const migrated = await snapshot();
+
+    await service.down({ target: 0 });
+    const reverted = await snapshot();
+    expect(reverted.columns).toEqual([]);
+    expect(reverted.functions).toEqual([]);
+
+    await service.up();
+    expect(await snapshot()).toEqual(migrated);
+    await expect(service.assertUpToDate()).resolves.toBeUndefined();
+  });
+});
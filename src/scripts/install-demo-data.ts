@@ -1,6 +1,9 @@
 // Demo Data Installation Script for Work Item Service
 import { DatabaseService } from '../services/databaseService';
 import { LoggerService } from '../services/loggerService';
+import { runWithTenant } from '../services/tenantContext';
+
+const DEMO_TENANT_ID = '00000000-0000-0000-0000-000000000001';
 
 export class DemoDataInstaller {
   private db: DatabaseService;
@@ -12,6 +15,11 @@ export class DemoDataInstaller {
   }
 
   async installDemoData(): Promise<{ success: boolean; message: string; count: number }> {
+    // Demo rows always belong to the demo tenant, whoever requested them
+    return runWithTenant(DEMO_TENANT_ID, () => this.install());
+  }
+
+  private async install(): Promise<{ success: boolean; message: string; count: number }> {
     try {
       this.logger.info('Starting demo data installation...');
 
@@ -32,18 +40,19 @@ export class DemoDataInstaller {
         count
       };
 
-    } catch (error: any) {
-      this.logger.error('Demo data installation failed:', { error: error.message || error });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : undefined;
+      this.logger.error('Demo data installation failed:', { error: message || error });
       return {
         success: false,
-        message: `Demo data installation failed: ${error?.message || 'Unknown error'}`,
+        message: `Demo data installation failed: ${message || 'Unknown error'}`,
         count: 0
       };
     }
   }
 
   private async clearExistingDemoData(): Promise<void> {
-    const demoTenantId = '00000000-0000-0000-0000-000000000001';
+    const demoTenantId = DEMO_TENANT_ID;
     const queries = [
       `DELETE FROM comments WHERE work_item_id IN (SELECT id FROM work_items WHERE tenant_id = '${demoTenantId}')`,
       `DELETE FROM dependency_edges WHERE from_id IN (SELECT id FROM work_items WHERE tenant_id = '${demoTenantId}') OR to_id IN (SELECT id FROM work_items WHERE tenant_id = '${demoTenantId}')`,
@@ -0,0 +1,67 @@
+// Schema migration CLI
+//
+//   migrate up [--to <version>]
+//   migrate down [--steps <n> | --to <version>]
+//   migrate status
+
+import { config } from 'dotenv';
+import { DatabaseService } from '../services/databaseService';
+import { MigrationService } from '../services/migrationService';
+import { MigrationStatus } from '../types';
+
+config();
+
+const USAGE = 'Usage: migrate <up|down|status> [--to <version>] [--steps <n>]';
+
+function parseOption(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = parseInt(args[index + 1], 10);
+  if (isNaN(value) || value < 0) {
+    throw new Error(`${name} expects a non-negative integer\n${USAGE}`);
+  }
+  return value;
+}
+
+function printStatus(statuses: MigrationStatus[]): void {
+  for (const status of statuses) {
+    const state = status.unknown ? 'unknown' : status.applied ? 'applied' : 'pending';
+    const appliedAt = status.applied_at ? new Date(status.applied_at).toISOString() : '';
+    console.log(`${String(status.version).padStart(4, '0')}  ${state.padEnd(8)} ${status.name.padEnd(32)} ${appliedAt}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const db = new DatabaseService();
+  const migrations = new MigrationService(db);
+
+  try {
+    switch (command) {
+      case 'up':
+        printStatus(await migrations.up(parseOption(args, '--to')));
+        break;
+
+      case 'down':
+        printStatus(await migrations.down({ steps: parseOption(args, '--steps'), target: parseOption(args, '--to') }));
+        break;
+
+      case 'status':
+        printStatus(await migrations.status());
+        break;
+
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
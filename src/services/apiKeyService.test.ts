@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import path from 'path';
+import { ApiKeyService } from './apiKeyService';
+import { CedarAuthService } from './cedarAuthService';
+import { DatabaseService } from './databaseService';
+import { ApiKeyScope, User, WorkItem } from '../types';
+
+jest.mock('./loggerService');
+
+const admin: User = { id: 'admin-1', email: 'admin@example.com', tenant_id: 'tenant-1', roles: ['admin'] };
+
+interface StoredKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  expires_at: Date | null;
+  revoked_at: Date | null;
+}
+
+/**
+ * service_api_keys in memory, applying the revocation and expiry filters of
+ * the lookup query
+ */
+class FakeKeyDatabase {
+  keys: StoredKey[] = [];
+  lookups = 0;
+
+  async query(text: string, params: unknown[]): Promise<{ rows: unknown[] }> {
+    if (text.includes('INSERT INTO service_api_keys')) {
+      const [id, tenant_id, name, key_prefix, key_hash, scopes, , expires_at] = params as [
+        string, string, string, string, string, ApiKeyScope[], string, Date | null
+      ];
+      const key: StoredKey = { id, tenant_id, name, key_prefix, key_hash, scopes, expires_at, revoked_at: null };
+      this.keys.push(key);
+      return { rows: [{ id, tenant_id, name, key_prefix, scopes, expires_at }] };
+    }
+
+    if (text.includes('WHERE key_prefix = $1')) {
+      this.lookups++;
+      const now = new Date();
+      return {
+        rows: this.keys.filter(key =>
+          key.key_prefix === params[0] && !key.revoked_at && (!key.expires_at || key.expires_at > now))
+      };
+    }
+
+    if (text.includes('SET last_used_at')) {
+      return { rows: [] };
+    }
+
+    throw new Error(`Unexpected query: ${text}`);
+  }
+}
+
+describe('ApiKeyService', () => {
+  let db: FakeKeyDatabase;
+  let service: ApiKeyService;
+
+  const create = (scopes: ApiKeyScope[] = ['work_items:read'], expires_at?: Date) =>
+    service.createApiKey(admin, { name: 'Reporting', scopes, expires_at });
+
+  beforeEach(() => {
+    db = new FakeKeyDatabase();
+    service = new ApiKeyService(db as unknown as DatabaseService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues wik_<16 hex>_<43 base64url> keys and stores only their SHA-256 hash', async () => {
+    const created = await create();
+
+    expect(created.key).toMatch(/^wik_[0-9a-f]{16}_[A-Za-z0-9_-]{43}$/);
+    expect(created.key_prefix).toBe(created.key.slice(4, 20));
+    expect(db.keys[0].key_hash).toBe(crypto.createHash('sha256').update(created.key).digest('hex'));
+    expect(JSON.stringify(db.keys)).not.toContain(created.key.slice(21));
+  });
+
+  it('issues a different key each time', async () => {
+    const first = await create();
+    const second = await create();
+
+    expect(first.key).not.toBe(second.key);
+    expect(first.key_prefix).not.toBe(second.key_prefix);
+  });
+
+  it('authenticates a key as a scoped service principal without roles', async () => {
+    const created = await create(['work_items:read', 'work_items:write']);
+
+    await expect(service.authenticate(created.key)).resolves.toEqual({
+      id: created.id,
+      email: '',
+      tenant_id: 'tenant-1',
+      roles: [],
+      principal_type: 'service',
+      scopes: ['work_items:read', 'work_items:write']
+    });
+  });
+
+  it('compares hashes in constant time', async () => {
+    const created = await create();
+    const timingSafeEqual = jest.spyOn(crypto, 'timingSafeEqual');
+
+    await service.authenticate(created.key);
+
+    expect(timingSafeEqual).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a wrong secret with a valid prefix', async () => {
+    const created = await create();
+    const secret = created.key.slice(21);
+    const forged = `${created.key.slice(0, 21)}${secret[0] === 'A' ? 'B' : 'A'}${secret.slice(1)}`;
+
+    await expect(service.authenticate(forged)).resolves.toBeNull();
+    expect(db.lookups).toBe(1);
+  });
+
+  it('rejects a revoked key', async () => {
+    const created = await create();
+    db.keys[0].revoked_at = new Date();
+
+    await expect(service.authenticate(created.key)).resolves.toBeNull();
+  });
+
+  it('rejects an expired key', async () => {
+    const created = await create(['work_items:read'], new Date(Date.now() - 1000));
+
+    await expect(service.authenticate(created.key)).resolves.toBeNull();
+  });
+
+  it('rejects malformed keys without a lookup', async () => {
+    for (const key of ['', 'wik_', 'wik_0123456789abcdef_short', `wik_XYZ3456789abcdef_${'a'.repeat(43)}`, 'Bearer token']) {
+      await expect(service.authenticate(key)).resolves.toBeNull();
+    }
+    expect(db.lookups).toBe(0);
+  });
+
+  describe('with the bundled Cedar policies', () => {
+    const originalEnv = process.env;
+    let cedarAuth: CedarAuthService;
+
+    const workItem = {
+      id: 'item-1',
+      type: 'task',
+      tenant_id: 'tenant-1',
+      owner_id: 'user-2',
+      updated_at: new Date()
+    } as unknown as WorkItem;
+
+    beforeAll(() => {
+      process.env = {
+        ...originalEnv,
+        CEDAR_MODE: 'local',
+        CEDAR_POLICY_PATH: path.join(__dirname, '..', '..', 'policies')
+      };
+      cedarAuth = new CedarAuthService();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    const decisions = async (scopes: ApiKeyScope[]) => {
+      const principal = (await service.authenticate((await create(scopes)).key))!;
+      const allowed = async (action: string, resource: WorkItem = workItem) =>
+        (await cedarAuth.evaluatePolicy(principal, action, resource)).allowed;
+
+      return {
+        read: await allowed('read'),
+        update: await allowed('update'),
+        delete: await allowed('delete'),
+        otherTenant: await allowed('read', { ...workItem, tenant_id: 'tenant-2' })
+      };
+    };
+
+    it('lets a read-scoped key read only', async () => {
+      await expect(decisions(['work_items:read'])).resolves.toEqual({
+        read: true, update: false, delete: false, otherTenant: false
+      });
+    });
+
+    it('lets a write-scoped key change work items but not read them', async () => {
+      await expect(decisions(['work_items:write'])).resolves.toEqual({
+        read: false, update: true, delete: true, otherTenant: false
+      });
+    });
+  });
+});
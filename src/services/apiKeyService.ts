@@ -0,0 +1,138 @@
+// API Key Service for Service-to-Service Credentials
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './databaseService';
+import { LoggerService } from './loggerService';
+import {
+  ApiKeyScope,
+  CreateApiKeyRequest,
+  CreatedApiKey,
+  ServiceApiKey,
+  User
+} from '../types';
+
+// wik_<prefix>_<secret>; the prefix identifies the row, only a hash of the whole key is stored
+export const API_KEY_PREFIX = 'wik_';
+const API_KEY_PATTERN = /^wik_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+const KEY_COLUMNS = `
+  id, tenant_id, name, key_prefix, scopes, created_by, created_at,
+  expires_at, last_used_at, revoked_at, revoked_by
+`;
+
+export class ApiKeyService {
+  private db: DatabaseService;
+  private logger: LoggerService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+    this.logger = new LoggerService();
+  }
+
+  async createApiKey(user: User, data: CreateApiKeyRequest): Promise<CreatedApiKey> {
+    const prefix = crypto.randomBytes(8).toString('hex');
+    const key = `${API_KEY_PREFIX}${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const result = await this.db.query<ServiceApiKey>(`
+      INSERT INTO service_api_keys (id, tenant_id, name, key_prefix, key_hash, scopes, created_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${KEY_COLUMNS};
+    `, [
+      uuidv4(),
+      user.tenant_id,
+      data.name,
+      prefix,
+      this.hashKey(key).toString('hex'),
+      data.scopes,
+      user.id,
+      data.expires_at || null
+    ]);
+
+    const apiKey: ServiceApiKey = result.rows[0];
+
+    this.logger.info('API key created', {
+      apiKeyId: apiKey.id,
+      tenantId: user.tenant_id,
+      scopes: apiKey.scopes,
+      userId: user.id
+    });
+
+    return { ...apiKey, key };
+  }
+
+  async listApiKeys(user: User): Promise<ServiceApiKey[]> {
+    const result = await this.db.query<ServiceApiKey>(`
+      SELECT ${KEY_COLUMNS} FROM service_api_keys
+      WHERE tenant_id = $1
+      ORDER BY created_at DESC;
+    `, [user.tenant_id]);
+
+    return result.rows;
+  }
+
+  async revokeApiKey(user: User, id: string): Promise<ServiceApiKey> {
+    const result = await this.db.query<ServiceApiKey>(`
+      UPDATE service_api_keys
+      SET revoked_at = COALESCE(revoked_at, NOW()), revoked_by = COALESCE(revoked_by, $3)
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING ${KEY_COLUMNS};
+    `, [id, user.tenant_id, user.id]);
+
+    if (result.rows.length === 0) {
+      throw new Error('API_KEY_NOT_FOUND');
+    }
+
+    this.logger.info('API key revoked', { apiKeyId: id, tenantId: user.tenant_id, userId: user.id });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Resolve a presented key to its service principal, or null when the key
+   * is malformed, unknown, revoked or expired.
+   */
+  async authenticate(key: string): Promise<User | null> {
+    const match = API_KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const result = await this.db.query(`
+      SELECT id, tenant_id, name, key_hash, scopes FROM service_api_keys
+      WHERE key_prefix = $1
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW());
+    `, [match[1]]);
+
+    const row = result.rows[0];
+    if (!row || !crypto.timingSafeEqual(Buffer.from(row.key_hash, 'hex'), this.hashKey(key))) {
+      return null;
+    }
+
+    // Coarse usage tracking; at most one write per key per minute
+    this.db.query(`
+      UPDATE service_api_keys SET last_used_at = NOW()
+      WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute');
+    `, [row.id]).catch((error) => {
+      this.logger.warn('Failed to record API key usage', {
+        apiKeyId: row.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    return {
+      id: row.id,
+      email: '',
+      tenant_id: row.tenant_id,
+      roles: [],
+      principal_type: 'service',
+      scopes: row.scopes as ApiKeyScope[]
+    };
+  }
+
+  // Keys carry 256 bits of randomness, so a plain SHA-256 is sufficient
+  private hashKey(key: string): Buffer {
+    return crypto.createHash('sha256').update(key).digest();
+  }
+}
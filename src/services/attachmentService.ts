@@ -0,0 +1,263 @@
+// Attachment Service for Work Item Files
+
+import crypto from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkItemService } from './workItemService';
+import { LoggerService } from './loggerService';
+import {
+  Attachment,
+  BlobStorageAdapter,
+  UploadedFile,
+  User,
+  WorkItemEvent
+} from '../types';
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/zip',
+  'application/json',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp'
+];
+
+export class AttachmentService {
+  private db: DatabaseService;
+  private outbox: EventOutboxService;
+  private cedarAuth: CedarAuthService;
+  private workItemService: WorkItemService;
+  private storage: BlobStorageAdapter;
+  private logger: LoggerService;
+
+  readonly maxBytes: number;
+  readonly allowedMimeTypes: string[];
+
+  constructor(
+    db: DatabaseService,
+    outbox: EventOutboxService,
+    cedarAuth: CedarAuthService,
+    workItemService: WorkItemService,
+    storage: BlobStorageAdapter
+  ) {
+    this.db = db;
+    this.outbox = outbox;
+    this.cedarAuth = cedarAuth;
+    this.workItemService = workItemService;
+    this.storage = storage;
+    this.logger = new LoggerService();
+
+    this.maxBytes = parseInt(process.env.ATTACHMENT_MAX_BYTES || String(DEFAULT_MAX_BYTES));
+    this.allowedMimeTypes = process.env.ATTACHMENT_ALLOWED_MIME_TYPES
+      ? process.env.ATTACHMENT_ALLOWED_MIME_TYPES.split(',').map(type => type.trim().toLowerCase())
+      : DEFAULT_ALLOWED_MIME_TYPES;
+  }
+
+  async uploadAttachment(
+    user: User,
+    workItemId: string,
+    file: UploadedFile
+  ): Promise<Attachment> {
+    // 1. Validate file against size and MIME allow-lists
+    if (file.size > this.maxBytes) {
+      throw new Error(`ATTACHMENT_TOO_LARGE: Maximum attachment size is ${this.maxBytes} bytes`);
+    }
+
+    const mimeType = file.mimetype.toLowerCase();
+    if (!this.allowedMimeTypes.includes(mimeType)) {
+      throw new Error(`UNSUPPORTED_MEDIA_TYPE: ${mimeType} attachments are not allowed`);
+    }
+
+    // 2. Get existing work item and check authorization
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    await this.cedarAuth.authorize(user, 'update', workItem);
+
+    // 3. Store the blob before recording metadata, removing it if the insert fails
+    const attachmentId = uuidv4();
+    const filename = this.sanitizeFilename(file.originalname);
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    const uri = await this.storage.put(
+      `${user.tenant_id}/${workItemId}/${attachmentId}`,
+      file.buffer,
+      mimeType
+    );
+
+    try {
+      return await this.db.transaction(async (client) => {
+        const insertQuery = `
+          INSERT INTO attachments (
+            id, tenant_id, work_item_id, filename, uri, size_bytes, mime_type, checksum, uploaded_by
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          RETURNING *;
+        `;
+
+        const result = await client.query(insertQuery, [
+          attachmentId,
+          user.tenant_id,
+          workItemId,
+          filename,
+          uri,
+          file.size,
+          mimeType,
+          checksum,
+          user.id
+        ]);
+
+        const attachment: Attachment = result.rows[0];
+
+        // 4. Publish event
+        const event: WorkItemEvent = {
+          type: 'attachment_added',
+          work_item_id: workItemId,
+          tenant_id: user.tenant_id,
+          user_id: user.id,
+          data: { attachment },
+          timestamp: new Date()
+        };
+
+        await this.outbox.publishWorkItemEvent(client, event);
+
+        this.logger.info('Attachment uploaded', {
+          attachmentId,
+          workItemId,
+          size: file.size,
+          mimeType,
+          userId: user.id,
+          tenantId: user.tenant_id
+        });
+
+        return attachment;
+      });
+    } catch (error) {
+      await this.storage.delete(uri).catch((cleanupError) => {
+        this.logger.warn('Failed to remove orphaned attachment blob', {
+          uri,
+          error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError)
+        });
+      });
+      throw error;
+    }
+  }
+
+  async getAttachments(user: User, workItemId: string): Promise<Attachment[]> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const query = `
+      SELECT * FROM attachments
+      WHERE tenant_id = $1 AND work_item_id = $2
+      ORDER BY uploaded_at;
+    `;
+
+    const result = await this.db.query<Attachment>(query, [user.tenant_id, workItemId]);
+    return result.rows;
+  }
+
+  async openAttachment(
+    user: User,
+    workItemId: string,
+    attachmentId: string
+  ): Promise<{ attachment: Attachment; stream: NodeJS.ReadableStream }> {
+    // getWorkItemById applies CedarAuthService.canReadWorkItem
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const attachment = await this.findAttachment(user, workItemId, attachmentId);
+    const stream = await this.storage.get(attachment.uri);
+
+    this.logger.debug('Attachment download started', {
+      attachmentId,
+      workItemId,
+      userId: user.id,
+      tenantId: user.tenant_id
+    });
+
+    return { attachment, stream };
+  }
+
+  async deleteAttachment(user: User, workItemId: string, attachmentId: string): Promise<void> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    await this.cedarAuth.authorize(user, 'update', workItem);
+
+    const attachment = await this.findAttachment(user, workItemId, attachmentId);
+
+    await this.db.transaction(async (client) => {
+      await client.query(
+        'DELETE FROM attachments WHERE id = $1 AND tenant_id = $2;',
+        [attachmentId, user.tenant_id]
+      );
+
+      const event: WorkItemEvent = {
+        type: 'attachment_removed',
+        work_item_id: workItemId,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        data: { attachment },
+        timestamp: new Date()
+      };
+
+      await this.outbox.publishWorkItemEvent(client, event);
+    });
+
+    // Blob removal happens after commit so a rollback never loses content
+    await this.storage.delete(attachment.uri);
+
+    this.logger.info('Attachment deleted', {
+      attachmentId,
+      workItemId,
+      userId: user.id,
+      tenantId: user.tenant_id
+    });
+  }
+
+  private async findAttachment(
+    user: User,
+    workItemId: string,
+    attachmentId: string
+  ): Promise<Attachment> {
+    const result = await this.db.query<Attachment>(
+      'SELECT * FROM attachments WHERE id = $1 AND tenant_id = $2 AND work_item_id = $3;',
+      [attachmentId, user.tenant_id, workItemId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('ATTACHMENT_NOT_FOUND');
+    }
+
+    return result.rows[0];
+  }
+
+  private sanitizeFilename(filename: string): string {
+    // Control characters are exactly what this strips
+    // eslint-disable-next-line no-control-regex
+    const base = path.basename(filename || 'attachment').replace(/[\x00-\x1f\x7f]/g, '').trim();
+    return (base || 'attachment').substring(0, 255);
+  }
+}
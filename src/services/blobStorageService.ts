@@ -0,0 +1,83 @@
+// Blob Storage Adapters for Work Item Attachments
+
+import fs from 'fs';
+import path from 'path';
+import { BlobStorageAdapter } from '../types';
+import { LoggerService } from './loggerService';
+
+const LOCAL_URI_PREFIX = 'local://';
+
+/**
+ * Stores blobs on the local filesystem under a single root directory.
+ * URIs are recorded relative to the root so the directory can be moved.
+ */
+export class LocalBlobStorage implements BlobStorageAdapter {
+  private rootDir: string;
+  private logger: LoggerService;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+    this.logger = new LoggerService();
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<string> {
+    const filePath = this.resolvePath(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+
+    this.logger.debug('Blob stored on local filesystem', { key, mimeType, size: data.length });
+
+    return `${LOCAL_URI_PREFIX}${key}`;
+  }
+
+  async get(uri: string): Promise<NodeJS.ReadableStream> {
+    const filePath = this.resolvePath(this.keyFromUri(uri));
+
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new Error('BLOB_NOT_FOUND: Attachment content is missing from storage');
+    }
+
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(uri: string): Promise<void> {
+    const filePath = this.resolvePath(this.keyFromUri(uri));
+    await fs.promises.rm(filePath, { force: true });
+  }
+
+  private keyFromUri(uri: string): string {
+    if (!uri.startsWith(LOCAL_URI_PREFIX)) {
+      throw new Error(`INVALID_BLOB_URI: ${uri} is not a local storage URI`);
+    }
+    return uri.substring(LOCAL_URI_PREFIX.length);
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    // Keys are built from IDs, but never allow them to escape the root directory
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('INVALID_BLOB_KEY: Key resolves outside of the storage root');
+    }
+
+    return filePath;
+  }
+}
+
+/**
+ * Build the configured storage adapter. Only `local` is implemented today;
+ * other drivers (e.g. Azure Blob) plug in here behind the same interface.
+ */
+export function createBlobStorage(): BlobStorageAdapter {
+  const driver = process.env.ATTACHMENT_STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalBlobStorage(process.env.ATTACHMENT_STORAGE_PATH || './data/attachments');
+    default:
+      throw new Error(`Unsupported attachment storage driver: ${driver}`);
+  }
+}
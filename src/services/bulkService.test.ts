@@ -0,0 +1,182 @@
+import { BulkService } from './bulkService';
+import { DatabaseService } from './databaseService';
+import { WorkItemService } from './workItemService';
+import { CedarAuthService } from './cedarAuthService';
+import {
+  BulkMode,
+  BulkOperation,
+  CreateWorkItemRequest,
+  UpdateWorkItemRequest,
+  User,
+  WorkItem,
+  WorkItemType
+} from '../types';
+
+jest.mock('./loggerService');
+
+const user: User = { id: 'user-1', email: 'user@example.com', tenant_id: 'tenant-1', roles: ['Manager'] };
+
+const EXISTING = '00000000-0000-4000-8000-000000000001';
+
+/**
+ * Work items in memory behind a transaction that rolls back on error, with
+ * creates numbered from 100 so IDs are predictable
+ */
+class FakeWorkItems {
+  items = new Map<string, WorkItem>([[EXISTING, { id: EXISTING, title: 'Existing' } as WorkItem]]);
+  transactions = 0;
+  private nextId = 100;
+
+  db = {
+    query: jest.fn(),
+    transaction: async <T>(callback: () => Promise<T>): Promise<T> => {
+      this.transactions++;
+      const snapshot = new Map(this.items);
+      try {
+        return await callback();
+      } catch (error) {
+        this.items = snapshot;
+        throw error;
+      }
+    }
+  };
+
+  service = {
+    createWorkItem: jest.fn(async (_: User, data: CreateWorkItemRequest) => {
+      if (data.title === 'boom') {
+        throw new Error('INVALID_TITLE: boom');
+      }
+      if (data.parent_id && !this.items.has(data.parent_id)) {
+        throw new Error('PARENT_NOT_FOUND');
+      }
+      const id = `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`;
+      const workItem = { id, ...data } as unknown as WorkItem;
+      this.items.set(id, workItem);
+      return workItem;
+    }),
+    updateWorkItem: jest.fn(async (_: User, id: string, data: UpdateWorkItemRequest) => {
+      const existing = this.items.get(id);
+      if (!existing) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+      const workItem = { ...existing, ...data } as WorkItem;
+      this.items.set(id, workItem);
+      return workItem;
+    }),
+    deleteWorkItem: jest.fn()
+  };
+}
+
+describe('BulkService', () => {
+  let store: FakeWorkItems;
+  let bulk: BulkService;
+
+  const create = (title: string, extra: { temp_id?: string; parent_id?: string } = {}): BulkOperation => ({
+    op: 'create',
+    ...(extra.temp_id && { temp_id: extra.temp_id }),
+    data: { type: WorkItemType.TASK, title, ...(extra.parent_id && { parent_id: extra.parent_id }) } as CreateWorkItemRequest
+  });
+
+  beforeEach(() => {
+    store = new FakeWorkItems();
+    bulk = new BulkService(
+      store.db as unknown as DatabaseService,
+      store.service as unknown as WorkItemService,
+      { mode: 'local' } as CedarAuthService
+    );
+  });
+
+  describe('temp ids', () => {
+    it('resolve to items created earlier in the batch', async () => {
+      const result = await bulk.execute(user, {
+        operations: [
+          create('Parent', { temp_id: 'parent' }),
+          create('Child', { parent_id: 'parent' }),
+          { op: 'update', id: 'parent', data: { title: 'Renamed' } }
+        ]
+      });
+
+      const parentId = result.results[0].id;
+      expect(result.results[0]).toMatchObject({ status: 'succeeded', temp_id: 'parent' });
+      expect(store.service.createWorkItem).toHaveBeenLastCalledWith(user, expect.objectContaining({ parent_id: parentId }));
+      expect(result.results[2]).toMatchObject({ status: 'succeeded', id: parentId });
+      expect(store.items.get(parentId!)?.title).toBe('Renamed');
+    });
+
+    it('pass real work item IDs through', async () => {
+      const result = await bulk.execute(user, {
+        operations: [create('Child', { parent_id: EXISTING })]
+      });
+
+      expect(result.results[0].status).toBe('succeeded');
+      expect(store.service.createWorkItem).toHaveBeenCalledWith(user, expect.objectContaining({ parent_id: EXISTING }));
+    });
+
+    it('must be unique', async () => {
+      await expect(bulk.execute(user, {
+        operations: [create('A', { temp_id: 'x' }), create('B', { temp_id: 'x' })]
+      })).rejects.toThrow('INVALID_BULK_REQUEST: Duplicate temp_id x');
+    });
+
+    it('reject references that are neither IDs nor declared temp ids before running anything', async () => {
+      await expect(bulk.execute(user, {
+        operations: [create('A'), { op: 'delete', id: 'not-a-uuid' }]
+      })).rejects.toThrow('INVALID_REFERENCE: Operation 1 refers to not-a-uuid');
+
+      expect(store.service.createWorkItem).not.toHaveBeenCalled();
+      expect(store.transactions).toBe(0);
+    });
+
+    it('reject references to temp ids declared later', async () => {
+      await expect(bulk.execute(user, {
+        operations: [create('Child', { parent_id: 'parent' }), create('Parent', { temp_id: 'parent' })]
+      })).rejects.toThrow('INVALID_REFERENCE: Operation 0 refers to parent');
+    });
+  });
+
+  describe('atomic mode', () => {
+    it('rolls back earlier operations and skips later ones when one fails', async () => {
+      const result = await bulk.execute(user, {
+        mode: BulkMode.ATOMIC,
+        operations: [create('First', { temp_id: 'first' }), create('boom'), create('Third')]
+      });
+
+      expect(result.results.map(operation => operation.status)).toEqual(['rolled_back', 'failed', 'skipped']);
+      expect(result.results[0]).not.toHaveProperty('id');
+      expect(result.results[0]).toMatchObject({ temp_id: 'first' });
+      expect(result.results[1].error).toEqual({ code: 'INVALID_TITLE', message: 'INVALID_TITLE: boom' });
+      expect(result).toMatchObject({ succeeded: 0, failed: 1 });
+      expect(store.items.size).toBe(1);
+    });
+
+    it('commits everything in one transaction on success', async () => {
+      const result = await bulk.execute(user, { operations: [create('A'), create('B')] });
+
+      expect(result).toMatchObject({ mode: BulkMode.ATOMIC, succeeded: 2, failed: 0 });
+      expect(store.transactions).toBe(1);
+      expect(store.items.size).toBe(3);
+    });
+  });
+
+  describe('best-effort mode', () => {
+    it('keeps going past failures and keeps what succeeded', async () => {
+      const result = await bulk.execute(user, {
+        mode: BulkMode.BEST_EFFORT,
+        operations: [
+          create('First'),
+          create('boom', { temp_id: 'failed' }),
+          create('Orphan', { parent_id: 'failed' }),
+          { op: 'update', id: EXISTING, data: { title: 'Updated' } }
+        ]
+      });
+
+      expect(result.results.map(operation => operation.status)).toEqual(['succeeded', 'failed', 'failed', 'succeeded']);
+      expect(result.results[2].error?.message).toBe(
+        'INVALID_REFERENCE: failed does not refer to an item created earlier in this batch'
+      );
+      expect(result).toMatchObject({ succeeded: 2, failed: 2 });
+      expect(store.items.size).toBe(2);
+      expect(store.items.get(EXISTING)?.title).toBe('Updated');
+    });
+  });
+});
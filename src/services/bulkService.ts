@@ -0,0 +1,254 @@
+// Bulk Service for Batched Work Item Changes
+
+import { DatabaseService } from './databaseService';
+import { WorkItemService } from './workItemService';
+import { CedarAuthService } from './cedarAuthService';
+import { LoggerService } from './loggerService';
+import {
+  BulkMode,
+  BulkOperation,
+  BulkOperationError,
+  BulkOperationResult,
+  BulkRequest,
+  BulkResult,
+  getErrorCode,
+  ServiceError,
+  User,
+  WorkItem
+} from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class BulkService {
+  private db: DatabaseService;
+  private workItemService: WorkItemService;
+  private cedarAuth: CedarAuthService;
+  private logger: LoggerService;
+
+  constructor(db: DatabaseService, workItemService: WorkItemService, cedarAuth: CedarAuthService) {
+    this.db = db;
+    this.workItemService = workItemService;
+    this.cedarAuth = cedarAuth;
+    this.logger = new LoggerService();
+  }
+
+  /**
+   * Apply operations in order. Atomic batches share one transaction and stop
+   * at the first failure; best-effort batches commit each operation on its
+   * own and carry on past failures.
+   */
+  async execute(user: User, request: BulkRequest): Promise<BulkResult> {
+    const mode = request.mode || BulkMode.ATOMIC;
+    const declaredTempIds = this.getDeclaredTempIds(request.operations);
+    const tempIds = new Map<string, string>();
+
+    this.validateReferences(request.operations);
+
+    const results: BulkOperationResult[] = request.operations.map((operation, index) => ({
+      index,
+      op: operation.op,
+      status: 'skipped',
+      ...(operation.op === 'create' && operation.temp_id && { temp_id: operation.temp_id })
+    }));
+
+    await this.preauthorize(user, request.operations, declaredTempIds);
+
+    const run = async (index: number, operation: BulkOperation): Promise<void> => {
+      try {
+        const outcome = await this.apply(user, operation, tempIds, declaredTempIds);
+        Object.assign(results[index], outcome, { status: 'succeeded' });
+      } catch (error) {
+        results[index].status = 'failed';
+        results[index].error = this.describeError(error);
+        throw error;
+      }
+    };
+
+    if (mode === BulkMode.ATOMIC) {
+      try {
+        await this.db.transaction(async () => {
+          for (const [index, operation] of request.operations.entries()) {
+            await run(index, operation);
+          }
+        });
+      } catch (error) {
+        if (!results.some(result => result.status === 'failed')) {
+          throw error;
+        }
+
+        // Earlier operations were undone along with the failed one
+        for (const result of results) {
+          if (result.status === 'succeeded') {
+            result.status = 'rolled_back';
+            delete result.id;
+            delete result.data;
+          }
+        }
+      }
+    } else {
+      for (const [index, operation] of request.operations.entries()) {
+        await run(index, operation).catch(() => undefined);
+      }
+    }
+
+    const succeeded = results.filter(result => result.status === 'succeeded').length;
+    const failed = results.filter(result => result.status === 'failed').length;
+
+    this.logger.info('Bulk operations applied', {
+      mode,
+      operations: results.length,
+      succeeded,
+      failed,
+      userId: user.id,
+      tenantId: user.tenant_id
+    });
+
+    return { mode, results, succeeded, failed };
+  }
+
+  private async apply(
+    user: User,
+    operation: BulkOperation,
+    tempIds: Map<string, string>,
+    declaredTempIds: Set<string>
+  ): Promise<Partial<BulkOperationResult>> {
+    const resolve = (id: string): string => {
+      const resolved = tempIds.get(id);
+      if (resolved) {
+        return resolved;
+      }
+      if (declaredTempIds.has(id)) {
+        throw new Error(`INVALID_REFERENCE: ${id} does not refer to an item created earlier in this batch`);
+      }
+      return id;
+    };
+
+    switch (operation.op) {
+      case 'create': {
+        const data = {
+          ...operation.data,
+          parent_id: operation.data.parent_id ? resolve(operation.data.parent_id) : undefined
+        };
+        const workItem = await this.workItemService.createWorkItem(user, data);
+
+        if (operation.temp_id) {
+          tempIds.set(operation.temp_id, workItem.id);
+        }
+
+        return { id: workItem.id, data: workItem };
+      }
+
+      case 'update': {
+        const id = resolve(operation.id);
+        const workItem = await this.workItemService.updateWorkItem(user, id, operation.data);
+        return { id, data: workItem };
+      }
+
+      case 'delete': {
+        const id = resolve(operation.id);
+        const result = await this.workItemService.deleteWorkItem(user, id, { cascade: operation.cascade });
+        return { id, data: result };
+      }
+
+      default:
+        throw new Error(`INVALID_OPERATION: Unsupported bulk operation ${(operation as { op: string }).op}`);
+    }
+  }
+
+  /**
+   * Authorize every existing item the batch touches up front, one batched
+   * policy call per action. The decisions land in the authorization cache,
+   * so the per-operation checks in WorkItemService are answered from it
+   * instead of costing a policy round-trip each. Items changed earlier in
+   * the batch have a new version and are evaluated again.
+   */
+  private async preauthorize(user: User, operations: BulkOperation[], declaredTempIds: Set<string>): Promise<void> {
+    // Local evaluation is in-process and uncached, so there is nothing to save
+    if (this.cedarAuth.mode === 'local') {
+      return;
+    }
+
+    const idsByAction: Record<'read' | 'update' | 'delete', Set<string>> = {
+      read: new Set(),
+      update: new Set(),
+      delete: new Set()
+    };
+
+    for (const operation of operations) {
+      const id = operation.op === 'create' ? operation.data.parent_id : operation.id;
+      if (!id || declaredTempIds.has(id) || !UUID_PATTERN.test(id)) {
+        continue;
+      }
+
+      idsByAction.read.add(id);
+      if (operation.op !== 'create') {
+        idsByAction[operation.op].add(id);
+      }
+    }
+
+    if (idsByAction.read.size === 0) {
+      return;
+    }
+
+    const result = await this.db.query<WorkItem>(
+      'SELECT * FROM work_items WHERE tenant_id = $1 AND id = ANY($2::uuid[]) AND deleted_at IS NULL;',
+      [user.tenant_id, Array.from(idsByAction.read)]
+    );
+    const workItems: WorkItem[] = result.rows;
+
+    for (const [action, ids] of Object.entries(idsByAction)) {
+      const targets = workItems.filter(workItem => ids.has(workItem.id));
+      if (targets.length > 0) {
+        await this.cedarAuth.evaluatePolicies(user, action, targets);
+      }
+    }
+  }
+
+  /**
+   * Every reference must be a work item ID or a temp_id declared by an earlier
+   * operation, checked before anything runs so a typo fails the whole request
+   * rather than reaching the database as a malformed ID
+   */
+  private validateReferences(operations: BulkOperation[]): void {
+    const declaredSoFar = new Set<string>();
+
+    for (const [index, operation] of operations.entries()) {
+      const reference = operation.op === 'create' ? operation.data.parent_id : operation.id;
+
+      if (reference && !declaredSoFar.has(reference) && !UUID_PATTERN.test(reference)) {
+        throw new Error(
+          `INVALID_REFERENCE: Operation ${index} refers to ${reference}, which is neither a work item ID nor a temp_id declared earlier in this batch`
+        );
+      }
+
+      if (operation.op === 'create' && operation.temp_id) {
+        declaredSoFar.add(operation.temp_id);
+      }
+    }
+  }
+
+  private getDeclaredTempIds(operations: BulkOperation[]): Set<string> {
+    const declared = new Set<string>();
+
+    for (const operation of operations) {
+      if (operation.op !== 'create' || !operation.temp_id) {
+        continue;
+      }
+      if (declared.has(operation.temp_id)) {
+        throw new Error(`INVALID_BULK_REQUEST: Duplicate temp_id ${operation.temp_id}`);
+      }
+      declared.add(operation.temp_id);
+    }
+
+    return declared;
+  }
+
+  private describeError(error: unknown): BulkOperationError {
+    const code = getErrorCode(error);
+    return {
+      ...(code && { code }),
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof ServiceError && { details: error.details })
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import path from 'path';
+import axios from 'axios';
+import { CedarAuthService } from './cedarAuthService';
+import { User, WorkItem } from '../types';
+
+jest.mock('axios');
+jest.mock('./loggerService');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const contributor: User = { id: 'user-1', email: 'user@example.com', tenant_id: 'tenant-1', roles: ['Contributor'] };
+
+const workItem = {
+  id: 'item-1',
+  type: 'task',
+  tenant_id: 'tenant-1',
+  owner_id: 'user-2',
+  updated_at: new Date('2026-01-01T00:00:00Z')
+} as unknown as WorkItem;
+
+function createService(env: Record<string, string>): CedarAuthService {
+  Object.assign(process.env, {
+    CEDAR_MODE: 'remote',
+    CEDAR_POLICY_PATH: path.join(__dirname, '..', '..', 'policies'),
+    ...env
+  });
+  return new CedarAuthService();
+}
+
+describe('CedarAuthService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    mockedAxios.post.mockReset();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('rejects an unknown failure mode at startup', () => {
+    expect(() => createService({ CEDAR_FAILURE_MODE: 'sometimes' })).toThrow('Invalid CEDAR_FAILURE_MODE');
+  });
+
+  describe('when the policy service rejects', () => {
+    beforeEach(() => {
+      mockedAxios.post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    });
+
+    // Contributors may read but not delete under the bundled local policies
+    it.each([
+      ['local', 'read', true, 'read-by-role'],
+      ['local', 'delete', false, 'default_deny'],
+      ['closed', 'read', false, 'fail_closed'],
+      ['closed', 'delete', false, 'fail_closed'],
+      ['open', 'read', true, 'fail_open'],
+      ['open', 'delete', true, 'fail_open']
+    ])('CEDAR_FAILURE_MODE=%s decides %s as allowed=%s', async (failureMode, action, allowed, policyId) => {
+      const service = createService({ CEDAR_FAILURE_MODE: failureMode });
+
+      const single = await service.evaluatePolicy(contributor, action, workItem);
+      const [batched] = await service.evaluatePolicies(contributor, action, [workItem]);
+
+      for (const result of [single, batched]) {
+        expect(result).toMatchObject({ allowed, policy_id: policyId });
+        expect(result.context).toMatchObject({ fallback: true, failure_mode: failureMode, error: 'connect ECONNREFUSED' });
+      }
+    });
+
+    it('does not cache fallback decisions', async () => {
+      const service = createService({ CEDAR_FAILURE_MODE: 'closed' });
+
+      await service.evaluatePolicy(contributor, 'read', workItem);
+      await service.evaluatePolicy(contributor, 'read', workItem);
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports the fallback in denials raised by authorize', async () => {
+      const service = createService({ CEDAR_FAILURE_MODE: 'closed' });
+
+      await expect(service.authorize(contributor, 'read', workItem)).rejects.toMatchObject({
+        message: expect.stringContaining('INSUFFICIENT_PERMISSIONS'),
+        details: { action: 'read', resource_id: 'item-1', policy_id: 'fail_closed', fallback: true }
+      });
+    });
+  });
+
+  describe('when the policy service answers', () => {
+    it('uses and caches its decision', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { success: true, data: { allowed: false, policy_id: 'remote-deny', reason: 'Denied remotely' } }
+      });
+      const service = createService({ CEDAR_FAILURE_MODE: 'open' });
+
+      const first = await service.evaluatePolicy(contributor, 'read', workItem);
+      const second = await service.evaluatePolicy(contributor, 'read', workItem);
+
+      expect(first).toEqual({ allowed: false, policy_id: 'remote-deny', reason: 'Denied remotely' });
+      expect(second).toEqual(first);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies the failure mode to an unsuccessful response', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { success: false, message: 'Policy store unavailable' } });
+      const service = createService({ CEDAR_FAILURE_MODE: 'local' });
+
+      const result = await service.evaluatePolicy(contributor, 'read', workItem);
+
+      expect(result).toMatchObject({
+        allowed: true,
+        policy_id: 'read-by-role',
+        context: { fallback: true, failure_mode: 'local', error: 'Policy store unavailable' }
+      });
+    });
+  });
+});
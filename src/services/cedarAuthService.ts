@@ -1,49 +1,128 @@
 // Cedar Authorization Service for Work Item Operations
 
+import path from 'path';
 import axios from 'axios';
 import { LoggerService } from './loggerService';
-import { CedarEvaluationRequest, CedarEvaluationResponse, User, WorkItem } from '../types';
+import { CedarPolicyEngine } from './cedarPolicyEngine';
+import {
+  AuthorizationExplanation,
+  AuthorizationResource,
+  CedarEvaluationRequest,
+  CedarEvaluationResponse,
+  ServiceError,
+  User,
+  WorkItem
+} from '../types';
+
+// remote: ask the policy service; local: evaluate policy files in-process
+export type CedarMode = 'remote' | 'local';
+
+// What to do when the policy service cannot be reached in remote mode
+export type CedarFailureMode = 'local' | 'closed' | 'open';
+
+interface CachedDecision {
+  result: CedarEvaluationResponse;
+  expiresAt: number;
+}
 
 export class CedarAuthService {
   private logger: LoggerService;
   private policyServiceUrl: string;
+  private engine: CedarPolicyEngine;
+  readonly mode: CedarMode;
+  readonly failureMode: CedarFailureMode;
+  private cacheTtlMs: number;
+  private cacheMaxEntries: number;
+  private batchSize: number;
+  private maxConcurrency: number;
+  private decisionCache = new Map<string, CachedDecision>();
+  private activeRequests = 0;
+  private requestQueue: (() => void)[] = [];
 
   constructor() {
     this.logger = new LoggerService();
     this.policyServiceUrl = process.env.POLICY_SERVICE_URL || 'http://localhost:3001';
+    this.cacheTtlMs = parseInt(process.env.CEDAR_CACHE_TTL_MS || '5000');
+    this.cacheMaxEntries = parseInt(process.env.CEDAR_CACHE_MAX_ENTRIES || '10000');
+    this.batchSize = parseInt(process.env.CEDAR_BATCH_SIZE || '100');
+    this.maxConcurrency = parseInt(process.env.CEDAR_MAX_CONCURRENCY || '10');
+
+    this.mode = (process.env.CEDAR_MODE || 'remote') as CedarMode;
+    this.failureMode = (process.env.CEDAR_FAILURE_MODE || 'local') as CedarFailureMode;
+
+    if (!['remote', 'local'].includes(this.mode)) {
+      throw new Error(`Invalid CEDAR_MODE: ${this.mode} (expected remote or local)`);
+    }
+    if (!['local', 'closed', 'open'].includes(this.failureMode)) {
+      throw new Error(`Invalid CEDAR_FAILURE_MODE: ${this.failureMode} (expected local, closed or open)`);
+    }
+
+    const policyPath = process.env.CEDAR_POLICY_PATH || path.join(process.cwd(), 'policies');
+    this.engine = CedarPolicyEngine.load(policyPath);
+
+    this.logger.info('Cedar authorization configured', {
+      mode: this.mode,
+      failureMode: this.failureMode,
+      policyPath,
+      localPolicies: this.engine.policies.length
+    });
+
+    if (this.engine.policies.length === 0 && (this.mode === 'local' || this.failureMode === 'local')) {
+      this.logger.warn('No local Cedar policies loaded; local evaluation denies every request', { policyPath });
+    }
   }
 
   async evaluatePolicy(
     user: User,
     action: string,
-    resource: WorkItem | any,
-    context?: Record<string, any>
+    resource: AuthorizationResource,
+    context?: Record<string, unknown>
   ): Promise<CedarEvaluationResponse> {
-    try {
-      const request: CedarEvaluationRequest = {
-        principal: {
-          id: user.id,
-          tenant_id: user.tenant_id,
-          roles: user.roles
-        },
-        action: {
-          type: action,
-          id: `action_${action}`
-        },
-        resource: {
-          id: resource.id || `resource_${Date.now()}`,
-          type: resource.type || 'work_item',
-          tenant_id: resource.tenant_id || user.tenant_id,
-          owner_id: resource.owner_id
-        },
-        context: {
-          ...context,
-          timestamp: new Date(),
-          service: 'work-item-service'
-        }
-      };
+    const request = this.buildRequest(user, action, resource, context);
+    return this.evaluateRequest(user, request, this.getCacheKey(user, action, resource, context));
+  }
 
-      const response = await axios.post(
+  /**
+   * Evaluate a decision without the cache and report exactly what was
+   * asked, which policy decided and whether a failure mode applied.
+   */
+  async explainPolicy(
+    user: User,
+    action: string,
+    resource: AuthorizationResource,
+    context?: Record<string, unknown>
+  ): Promise<AuthorizationExplanation> {
+    const request = this.buildRequest(user, action, resource, context);
+    const decision = await this.evaluateRequest(user, request, null);
+
+    return {
+      request,
+      decision,
+      allowed: decision.allowed,
+      policy_id: decision.policy_id,
+      reason: decision.reason,
+      fallback: !!decision.context?.fallback,
+      mode: this.mode,
+      failure_mode: this.failureMode
+    };
+  }
+
+  private async evaluateRequest(
+    user: User,
+    request: CedarEvaluationRequest,
+    cacheKey: string | null
+  ): Promise<CedarEvaluationResponse> {
+    if (this.mode === 'local') {
+      return this.logDecision(user, request, this.engine.evaluate(request));
+    }
+
+    const cached = this.getCachedDecision(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await this.withConcurrencyLimit(() => axios.post(
         `${this.policyServiceUrl}/api/policies/evaluate`,
         request,
         {
@@ -52,55 +131,139 @@ export class CedarAuthService {
             'Content-Type': 'application/json'
           }
         }
-      );
+      ));
 
       if (!response.data.success) {
         throw new Error(response.data.message || 'Policy evaluation failed');
       }
 
       const result = response.data.data as CedarEvaluationResponse;
-      
-      this.logger.debug('Policy evaluation completed', {
-        userId: user.id,
-        action,
-        resourceId: resource.id,
-        allowed: result.allowed,
-        policyId: result.policy_id
-      });
 
-      return result;
+      this.cacheDecision(cacheKey, result);
+      return this.logDecision(user, request, result);
 
     } catch (error) {
-      this.logger.warn('Policy service unavailable, falling back to role-based authorization', {
+      this.logger.warn('Policy service unavailable, applying failure mode', {
         userId: user.id,
-        action,
-        resourceId: resource.id,
+        action: request.action.type,
+        resourceId: request.resource.id,
+        failureMode: this.failureMode,
         error: error instanceof Error ? error.message : String(error)
       });
 
-      // Fall back to role-based authorization when policy service is unavailable
-      const allowed = this.fallbackAuthorization(user, action, resource);
-      
-      return {
-        allowed,
-        policy_id: 'fallback_authorization',
-        reason: allowed ? 'Authorized via fallback role-based check' : 'Denied by fallback authorization',
-        context: { 
-          fallback: true, 
-          error: error instanceof Error ? error.message : String(error),
-          userRoles: user.roles,
-          resourceTenantId: resource.tenant_id,
-          userTenantId: user.tenant_id
+      return this.logDecision(user, request, this.fallbackDecision(request, error));
+    }
+  }
+
+  /**
+   * Evaluate one action against many resources. Cached decisions are reused
+   * and the rest are sent in batches, so a page of results costs one policy
+   * round-trip instead of one per item. Results follow the input order.
+   */
+  async evaluatePolicies(
+    user: User,
+    action: string,
+    resources: AuthorizationResource[]
+  ): Promise<CedarEvaluationResponse[]> {
+    const results: CedarEvaluationResponse[] = new Array(resources.length);
+    const pending: number[] = [];
+
+    if (this.mode === 'local') {
+      return resources.map(resource => {
+        const request = this.buildRequest(user, action, resource);
+        return this.logDecision(user, request, this.engine.evaluate(request));
+      });
+    }
+
+    resources.forEach((resource, index) => {
+      const cached = this.getCachedDecision(this.getCacheKey(user, action, resource));
+      if (cached) {
+        results[index] = cached;
+      } else {
+        pending.push(index);
+      }
+    });
+
+    for (let start = 0; start < pending.length; start += this.batchSize) {
+      const chunk = pending.slice(start, start + this.batchSize);
+
+      const requests = chunk.map(index => this.buildRequest(user, action, resources[index]));
+
+      try {
+        const response = await this.withConcurrencyLimit(() => axios.post(
+          `${this.policyServiceUrl}/api/policies/evaluate/batch`,
+          { requests },
+          {
+            timeout: 5000,
+            headers: {
+              'Content-Type': 'application/json'
+            }
+          }
+        ));
+
+        if (!response.data.success) {
+          throw new Error(response.data.message || 'Policy evaluation failed');
         }
-      };
+
+        const decisions = response.data.data as CedarEvaluationResponse[];
+        if (!Array.isArray(decisions) || decisions.length !== chunk.length) {
+          throw new Error('Policy service returned a malformed batch response');
+        }
+
+        chunk.forEach((index, position) => {
+          this.cacheDecision(this.getCacheKey(user, action, resources[index]), decisions[position]);
+          results[index] = this.logDecision(user, requests[position], decisions[position]);
+        });
+
+      } catch (error) {
+        this.logger.warn('Policy service unavailable, applying failure mode', {
+          userId: user.id,
+          action,
+          resources: chunk.length,
+          failureMode: this.failureMode,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        chunk.forEach((index, position) => {
+          results[index] = this.logDecision(user, requests[position], this.fallbackDecision(requests[position], error));
+        });
+      }
     }
+
+    return results;
+  }
+
+  /**
+   * Throw INSUFFICIENT_PERMISSIONS unless the action is allowed. The error
+   * carries the deciding policy and reason so denials can be explained.
+   */
+  async authorize(
+    user: User,
+    action: string,
+    resource: AuthorizationResource,
+    context?: Record<string, unknown>
+  ): Promise<void> {
+    const result = await this.evaluatePolicy(user, action, resource, context);
+    if (!result.allowed) {
+      throw this.deniedError(action, resource, result);
+    }
+  }
+
+  deniedError(action: string, resource: AuthorizationResource, result: CedarEvaluationResponse): ServiceError {
+    return new ServiceError(`INSUFFICIENT_PERMISSIONS: ${result.reason}`, {
+      action,
+      resource_id: resource.id,
+      policy_id: result.policy_id,
+      reason: result.reason,
+      fallback: !!result.context?.fallback
+    });
   }
 
   async canCreateWorkItem(
     user: User,
     workItemType: string,
     parentId?: string
-  ): Promise<{ allowed: boolean; reason?: string }> {
+  ): Promise<{ allowed: boolean; reason?: string; policy_id?: string }> {
     // Check lineage enforcement policy
     const result = await this.evaluatePolicy(
       user,
@@ -118,7 +281,8 @@ export class CedarAuthService {
     if (!result.allowed) {
       return {
         allowed: false,
-        reason: result.reason
+        reason: result.reason,
+        policy_id: result.policy_id
       };
     }
 
@@ -132,56 +296,200 @@ export class CedarAuthService {
       if (!hasExecRole) {
         return {
           allowed: false,
-          reason: 'Non-objective work items require a parent unless created by CEO or President'
+          reason: 'Non-objective work items require a parent unless created by CEO or President',
+          policy_id: 'lineage_enforcement'
         };
       }
     }
 
-    return { allowed: true };
+    return { allowed: true, policy_id: result.policy_id };
   }
 
-  async canUpdateWorkItem(user: User, workItem: WorkItem): Promise<boolean> {
-    const result = await this.evaluatePolicy(user, 'update', workItem);
+  async canReadWorkItem(user: User, workItem: WorkItem): Promise<boolean> {
+    const result = await this.evaluatePolicy(user, 'read', workItem);
     return result.allowed;
   }
 
-  async canDeleteWorkItem(user: User, workItem: WorkItem): Promise<boolean> {
-    const result = await this.evaluatePolicy(user, 'delete', workItem);
-    return result.allowed;
+  async canReadWorkItems(user: User, workItems: WorkItem[]): Promise<boolean[]> {
+    const results = await this.evaluatePolicies(user, 'read', workItems);
+    return results.map(result => result.allowed);
   }
 
-  async canReadWorkItem(user: User, workItem: WorkItem): Promise<boolean> {
-    const result = await this.evaluatePolicy(user, 'read', workItem);
-    return result.allowed;
+  private buildRequest(
+    user: User,
+    action: string,
+    resource: AuthorizationResource,
+    context?: Record<string, unknown>
+  ): CedarEvaluationRequest {
+    return {
+      principal: {
+        id: user.id,
+        type: user.principal_type === 'service' ? 'Service' : 'User',
+        tenant_id: user.tenant_id,
+        roles: user.roles,
+        ...(user.principal_type === 'service' && { scopes: user.scopes || [] })
+      },
+      action: {
+        type: action,
+        id: `action_${action}`
+      },
+      resource: {
+        id: resource.id || `resource_${Date.now()}`,
+        type: resource.type || 'work_item',
+        tenant_id: resource.tenant_id || user.tenant_id,
+        owner_id: resource.owner_id
+      },
+      context: {
+        ...context,
+        timestamp: new Date(),
+        service: 'work-item-service'
+      }
+    };
   }
 
-  async canManageLineage(user: User, workItem: WorkItem): Promise<boolean> {
-    const result = await this.evaluatePolicy(user, 'manage_lineage', workItem);
-    return result.allowed;
+  /**
+   * Decision used when the policy service cannot be reached, according to
+   * CEDAR_FAILURE_MODE. The result is marked `fallback` and never cached.
+   */
+  private fallbackDecision(request: CedarEvaluationRequest, error: unknown): CedarEvaluationResponse {
+    const context = {
+      fallback: true,
+      failure_mode: this.failureMode,
+      error: error instanceof Error ? error.message : String(error)
+    };
+
+    if (this.failureMode === 'open') {
+      return {
+        allowed: true,
+        policy_id: 'fail_open',
+        reason: 'Policy service unavailable; allowed because CEDAR_FAILURE_MODE=open',
+        context
+      };
+    }
+
+    if (this.failureMode === 'closed') {
+      return {
+        allowed: false,
+        policy_id: 'fail_closed',
+        reason: 'Policy service unavailable; denied because CEDAR_FAILURE_MODE=closed',
+        context
+      };
+    }
+
+    const result = this.engine.evaluate(request);
+    return { ...result, context: { ...result.context, ...context } };
+  }
+
+  private logDecision(
+    user: User,
+    request: CedarEvaluationRequest,
+    result: CedarEvaluationResponse
+  ): CedarEvaluationResponse {
+    const fields = {
+      userId: user.id,
+      action: request.action.type,
+      resourceId: request.resource.id,
+      allowed: result.allowed,
+      policyId: result.policy_id,
+      reason: result.reason,
+      fallback: !!result.context?.fallback
+    };
+
+    if (result.allowed) {
+      this.logger.debug('Policy evaluation completed', fields);
+    } else {
+      this.logger.info('Authorization denied', fields);
+    }
+
+    return result;
   }
 
   /**
-   * Fallback authorization check for when policy service is unavailable
+   * Decisions are cached per principal, action and resource version, so an
+   * update to the resource (or a change of roles or scopes) never reuses a stale
+   * decision. Requests with extra context or without a stored resource are
+   * not cached.
    */
-  fallbackAuthorization(user: User, action: string, resource: any): boolean {
-    // Basic role-based fallback
-    // const roleHierarchy = ['CEO', 'President', 'VP', 'Director', 'Manager', 'Contributor'];
-    const requiredRoles: Record<string, string[]> = {
-      'create': ['Manager', 'Director', 'VP', 'President', 'CEO'],
-      'update': ['Manager', 'Director', 'VP', 'President', 'CEO'],
-      'delete': ['Director', 'VP', 'President', 'CEO'],
-      'read': ['Contributor', 'Manager', 'Director', 'VP', 'President', 'CEO']
-    };
+  private getCacheKey(
+    user: User,
+    action: string,
+    resource: AuthorizationResource,
+    context?: Record<string, unknown>
+  ): string | null {
+    if (this.cacheTtlMs <= 0 || context || !resource.id) {
+      return null;
+    }
+
+    const version = resource.updated_at ? new Date(resource.updated_at).getTime() : '';
+    const roles = [...user.roles].sort().join(',');
+    const scopes = [...(user.scopes || [])].sort().join(',');
+    return [
+      user.tenant_id,
+      user.principal_type || 'user',
+      user.id,
+      roles,
+      scopes,
+      action,
+      resource.id,
+      resource.owner_id,
+      version
+    ].join('|');
+  }
+
+  private getCachedDecision(cacheKey: string | null): CedarEvaluationResponse | null {
+    if (!cacheKey) {
+      return null;
+    }
+
+    const cached = this.decisionCache.get(cacheKey);
+    if (!cached) {
+      return null;
+    }
+
+    if (cached.expiresAt <= Date.now()) {
+      this.decisionCache.delete(cacheKey);
+      return null;
+    }
+
+    return cached.result;
+  }
+
+  private cacheDecision(cacheKey: string | null, result: CedarEvaluationResponse): void {
+    if (!cacheKey) {
+      return;
+    }
 
-    const actionRoles = requiredRoles[action] || [];
-    const hasRequiredRole = user.roles.some(role => actionRoles.includes(role));
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.decisionCache.size >= this.cacheMaxEntries) {
+      const oldest = this.decisionCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.decisionCache.delete(oldest);
+      }
+    }
 
-    // Additional checks for tenant isolation
-    const sameTenant = user.tenant_id === resource.tenant_id;
+    this.decisionCache.set(cacheKey, { result, expiresAt: Date.now() + this.cacheTtlMs });
+  }
 
-    // Owner check for read/update
-    const isOwner = resource.owner_id === user.id;
+  /**
+   * Cap concurrent policy service requests; callers beyond the limit queue.
+   */
+  private async withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+    if (this.activeRequests >= this.maxConcurrency) {
+      // The finishing request hands its slot straight to the next in line
+      await new Promise<void>(resolve => this.requestQueue.push(resolve));
+    } else {
+      this.activeRequests++;
+    }
 
-    return sameTenant && (hasRequiredRole || isOwner);
+    try {
+      return await task();
+    } finally {
+      const next = this.requestQueue.shift();
+      if (next) {
+        next();
+      } else {
+        this.activeRequests--;
+      }
+    }
   }
 }
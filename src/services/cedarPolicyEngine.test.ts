@@ -0,0 +1,113 @@
+import path from 'path';
+import { CedarPolicyEngine } from './cedarPolicyEngine';
+import { CedarEvaluationRequest } from '../types';
+
+const POLICY_PATH = path.join(__dirname, '..', '..', 'policies', 'work-items.cedar');
+
+function request(
+  action: string,
+  principal: Partial<CedarEvaluationRequest['principal']> = {},
+  resource: Partial<CedarEvaluationRequest['resource']> = {}
+): CedarEvaluationRequest {
+  return {
+    principal: { id: 'user-1', type: 'User', tenant_id: 'tenant-1', roles: [], ...principal },
+    action: { type: action, id: `action_${action}` },
+    resource: { id: 'item-1', type: 'task', tenant_id: 'tenant-1', owner_id: 'user-2', ...resource }
+  };
+}
+
+describe('CedarPolicyEngine', () => {
+  describe('with the bundled work item policies', () => {
+    const engine = CedarPolicyEngine.load(POLICY_PATH);
+
+    it('parses every policy in the file', () => {
+      expect(engine.policies.map(policy => policy.id)).toEqual([
+        'tenant-isolation',
+        'owner-access',
+        'read-by-role',
+        'write-by-role',
+        'delete-by-role',
+        'moderate-comments-by-role',
+        'service-read-by-scope',
+        'service-write-by-scope'
+      ]);
+    });
+
+    it('permits by role', () => {
+      const result = engine.evaluate(request('read', { roles: ['Contributor'] }));
+
+      expect(result).toMatchObject({ allowed: true, policy_id: 'read-by-role' });
+    });
+
+    it('lets a forbid override a matching permit', () => {
+      const result = engine.evaluate(request('read', { roles: ['CEO'], id: 'user-2' }, { tenant_id: 'tenant-2' }));
+
+      expect(result).toMatchObject({
+        allowed: false,
+        policy_id: 'tenant-isolation',
+        reason: 'Principal and resource belong to different tenants'
+      });
+      expect(result.context?.determining_policies).toEqual(['tenant-isolation']);
+    });
+
+    it('denies by default when no policy permits', () => {
+      const result = engine.evaluate(request('delete', { roles: ['Contributor'] }));
+
+      expect(result).toMatchObject({ allowed: false, policy_id: 'default_deny', reason: 'No policy permits delete' });
+    });
+
+    it('gives owners full access regardless of role', () => {
+      const result = engine.evaluate(request('delete', { id: 'user-2' }));
+
+      expect(result).toMatchObject({ allowed: true, policy_id: 'owner-access' });
+    });
+
+    it('authorizes service principals by scope only', () => {
+      const service = { type: 'Service' as const, id: 'key-1', scopes: ['work_items:read'] };
+
+      expect(engine.evaluate(request('read', service)).allowed).toBe(true);
+      expect(engine.evaluate(request('update', service)).allowed).toBe(false);
+    });
+
+    it('skips policies whose conditions error', () => {
+      // User principals have no scopes, so the service policies fail on attribute access
+      const result = engine.evaluate(request('update', { type: 'Service', roles: ['Manager'] }));
+
+      expect(result).toMatchObject({ allowed: true, policy_id: 'write-by-role' });
+      expect(result.context?.errored_policies).toEqual(['service-write-by-scope']);
+    });
+  });
+
+  describe('parsing', () => {
+    it('supports unless, has, in and negation', () => {
+      const engine = new CedarPolicyEngine(CedarPolicyEngine.parse(`
+        @id("p")
+        permit (principal, action in [Action::"read", Action::"update"], resource)
+        when { resource has owner_id && resource.type in ["task", "subtask"] }
+        unless { !(principal.roles.containsAll(["A", "B"])) };
+      `));
+
+      expect(engine.evaluate(request('read', { roles: ['A', 'B'] })).allowed).toBe(true);
+      expect(engine.evaluate(request('read', { roles: ['A'] })).allowed).toBe(false);
+      expect(engine.evaluate(request('delete', { roles: ['A', 'B'] })).allowed).toBe(false);
+      expect(engine.evaluate(request('read', { roles: ['A', 'B'] }, { type: 'objective' })).allowed).toBe(false);
+    });
+
+    it('skips a forbid whose condition errors instead of denying', () => {
+      const engine = new CedarPolicyEngine(CedarPolicyEngine.parse(`
+        @id("allow-all") permit (principal, action, resource);
+        @id("broken-forbid") forbid (principal, action, resource) when { context.missing == true };
+      `));
+
+      const result = engine.evaluate(request('read'));
+
+      expect(result).toMatchObject({ allowed: true, policy_id: 'allow-all' });
+      expect(result.context?.errored_policies).toEqual(['broken-forbid']);
+    });
+
+    it('reports syntax errors', () => {
+      expect(() => CedarPolicyEngine.parse('@id("x") permit (principal, action, resource) when { principal.roles.contains( };'))
+        .toThrow();
+    });
+  });
+});
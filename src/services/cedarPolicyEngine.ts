@@ -0,0 +1,562 @@
+// Local Cedar Policy Engine - evaluates Cedar-style policy files in-process
+
+import fs from 'fs';
+import path from 'path';
+import { CedarEvaluationRequest, CedarEvaluationResponse } from '../types';
+
+/**
+ * Supported subset of the Cedar language:
+ *
+ *   @id("read-by-role")
+ *   @reason("Contributors and above can read work items")
+ *   permit (principal, action in [Action::"read"], resource)
+ *   when { principal.roles.containsAny(["Contributor"]) }
+ *   unless { resource.tenant_id != principal.tenant_id };
+ *
+ * Scopes constrain only the action (`==` or `in [...]`). Conditions support
+ * `&&`, `||`, `!`, comparisons, `has`, `in [...]`, attribute access on
+ * `principal`, `resource` and `context`, and the `contains`, `containsAny`
+ * and `containsAll` methods. As in Cedar, a forbid overrides any permit,
+ * nothing is allowed without a permit, and a policy whose condition errors
+ * (e.g. a missing attribute) is skipped.
+ */
+
+type Expr =
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'variable'; name: string }
+  | { kind: 'entity'; value: string }
+  | { kind: 'list'; items: Expr[] }
+  | { kind: 'attribute'; target: Expr; name: string }
+  | { kind: 'has'; target: Expr; name: string }
+  | { kind: 'call'; target: Expr; method: string; args: Expr[] }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+interface Condition {
+  type: 'when' | 'unless';
+  expr: Expr;
+}
+
+export interface CedarPolicy {
+  id: string;
+  effect: 'permit' | 'forbid';
+  reason?: string;
+  // Action names the policy applies to; null means any action
+  actions: string[] | null;
+  conditions: Condition[];
+}
+
+interface Token {
+  type: 'string' | 'number' | 'ident' | 'punct';
+  value: string;
+  line: number;
+}
+
+const VARIABLES = ['principal', 'action', 'resource', 'context'];
+const PUNCTUATION = ['::', '==', '!=', '<=', '>=', '&&', '||', '(', ')', '{', '}', '[', ']', ',', ';', '.', '!', '<', '>', '@'];
+
+class EvaluationError extends Error {}
+
+function tokenize(source: string, file: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\') {
+          i++;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new Error(`${file}:${line}: unterminated string`);
+      }
+      i++;
+      tokens.push({ type: 'string', value, line });
+    } else if (/[0-9-]/.test(char) && /[0-9]/.test(source[char === '-' ? i + 1 : i] || '')) {
+      const match = /^-?[0-9]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], line });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], line });
+      i += match[0].length;
+    } else {
+      const punct = PUNCTUATION.find(candidate => source.startsWith(candidate, i));
+      if (!punct) {
+        throw new Error(`${file}:${line}: unexpected character '${char}'`);
+      }
+      tokens.push({ type: 'punct', value: punct, line });
+      i += punct.length;
+    }
+  }
+
+  return tokens;
+}
+
+class PolicyParser {
+  private tokens: Token[];
+  private file: string;
+  private position = 0;
+
+  constructor(source: string, file: string) {
+    this.tokens = tokenize(source, file);
+    this.file = file;
+  }
+
+  parse(): CedarPolicy[] {
+    const policies: CedarPolicy[] = [];
+
+    while (!this.atEnd()) {
+      policies.push(this.parsePolicy(policies.length));
+    }
+
+    return policies;
+  }
+
+  private parsePolicy(index: number): CedarPolicy {
+    const annotations: Record<string, string> = {};
+
+    while (this.accept('@')) {
+      const name = this.expectIdent();
+      this.expect('(');
+      annotations[name] = this.expectType('string');
+      this.expect(')');
+    }
+
+    const effect = this.expectIdent();
+    if (effect !== 'permit' && effect !== 'forbid') {
+      this.fail(`expected permit or forbid, found '${effect}'`);
+    }
+
+    this.expect('(');
+    this.expectKeyword('principal');
+    this.expect(',');
+    const actions = this.parseActionScope();
+    this.expect(',');
+    this.expectKeyword('resource');
+    this.expect(')');
+
+    const conditions: Condition[] = [];
+    while (this.peekValue() === 'when' || this.peekValue() === 'unless') {
+      const type = this.expectIdent() as Condition['type'];
+      this.expect('{');
+      conditions.push({ type, expr: this.parseExpression() });
+      this.expect('}');
+    }
+
+    this.expect(';');
+
+    return {
+      id: annotations.id || `${path.basename(this.file)}#${index}`,
+      effect,
+      reason: annotations.reason,
+      actions,
+      conditions
+    };
+  }
+
+  private parseActionScope(): string[] | null {
+    this.expectKeyword('action');
+
+    if (this.accept('==')) {
+      return [this.parseActionRef()];
+    }
+
+    if (this.acceptKeyword('in')) {
+      this.expect('[');
+      const actions = [this.parseActionRef()];
+      while (this.accept(',')) {
+        actions.push(this.parseActionRef());
+      }
+      this.expect(']');
+      return actions;
+    }
+
+    return null;
+  }
+
+  private parseActionRef(): string {
+    this.expectKeyword('Action');
+    this.expect('::');
+    return this.expectType('string');
+  }
+
+  private parseExpression(): Expr {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      left = { kind: 'binary', op: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseUnary();
+    while (this.accept('&&')) {
+      left = { kind: 'binary', op: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.accept('!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseMember();
+
+    if (this.acceptKeyword('has')) {
+      return { kind: 'has', target: left, name: this.expectIdent() };
+    }
+
+    const op = ['==', '!=', '<=', '>=', '<', '>'].find(candidate => this.peekValue() === candidate)
+      || (this.peekValue() === 'in' ? 'in' : undefined);
+    if (!op) {
+      return left;
+    }
+
+    this.position++;
+    return { kind: 'binary', op, left, right: this.parseMember() };
+  }
+
+  private parseMember(): Expr {
+    let expr = this.parsePrimary();
+
+    while (this.accept('.')) {
+      const name = this.expectIdent();
+      if (this.accept('(')) {
+        const args: Expr[] = [];
+        if (!this.accept(')')) {
+          do {
+            args.push(this.parseExpression());
+          } while (this.accept(','));
+          this.expect(')');
+        }
+        expr = { kind: 'call', target: expr, method: name, args };
+      } else {
+        expr = { kind: 'attribute', target: expr, name };
+      }
+    }
+
+    return expr;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      return { kind: 'literal', value: parseInt(token.value) };
+    }
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'literal', value: token.value === 'true' };
+    }
+    if (token.type === 'ident' && VARIABLES.includes(token.value)) {
+      return { kind: 'variable', name: token.value };
+    }
+    if (token.type === 'ident' && this.accept('::')) {
+      return { kind: 'entity', value: `${token.value}::${this.expectType('string')}` };
+    }
+    if (token.value === '(') {
+      const expr = this.parseExpression();
+      this.expect(')');
+      return expr;
+    }
+    if (token.value === '[') {
+      const items: Expr[] = [];
+      if (!this.accept(']')) {
+        do {
+          items.push(this.parseExpression());
+        } while (this.accept(','));
+        this.expect(']');
+      }
+      return { kind: 'list', items };
+    }
+
+    return this.fail(`unexpected '${token.value}'`, token);
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  private peekValue(): string | undefined {
+    return this.tokens[this.position]?.value;
+  }
+
+  private next(): Token {
+    if (this.atEnd()) {
+      this.fail('unexpected end of file');
+    }
+    return this.tokens[this.position++];
+  }
+
+  private accept(value: string): boolean {
+    const token = this.tokens[this.position];
+    if (token && token.type === 'punct' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    const token = this.tokens[this.position];
+    if (token && token.type === 'ident' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      this.fail(`expected '${value}'`);
+    }
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.acceptKeyword(value)) {
+      this.fail(`expected '${value}'`);
+    }
+  }
+
+  private expectIdent(): string {
+    return this.expectType('ident');
+  }
+
+  private expectType(type: Token['type']): string {
+    const token = this.next();
+    if (token.type !== type) {
+      this.fail(`expected ${type}, found '${token.value}'`, token);
+    }
+    return token.value;
+  }
+
+  private fail(message: string, token: Token | undefined = this.tokens[this.position]): never {
+    const line = token ? token.line : this.tokens[this.tokens.length - 1]?.line || 1;
+    throw new Error(`${this.file}:${line}: ${message}`);
+  }
+}
+
+export class CedarPolicyEngine {
+  readonly policies: CedarPolicy[];
+
+  constructor(policies: CedarPolicy[] = []) {
+    this.policies = policies;
+  }
+
+  /**
+   * Load every `.cedar` file at `policyPath` (a file or a directory).
+   * Syntax errors throw so a broken policy set fails at startup.
+   */
+  static load(policyPath: string): CedarPolicyEngine {
+    if (!fs.existsSync(policyPath)) {
+      return new CedarPolicyEngine();
+    }
+
+    const files = fs.statSync(policyPath).isDirectory()
+      ? fs.readdirSync(policyPath)
+        .filter(file => file.endsWith('.cedar'))
+        .sort()
+        .map(file => path.join(policyPath, file))
+      : [policyPath];
+
+    const policies = files.flatMap(file => CedarPolicyEngine.parse(fs.readFileSync(file, 'utf8'), file));
+
+    const ids = new Set<string>();
+    for (const policy of policies) {
+      if (ids.has(policy.id)) {
+        throw new Error(`Duplicate Cedar policy id: ${policy.id}`);
+      }
+      ids.add(policy.id);
+    }
+
+    return new CedarPolicyEngine(policies);
+  }
+
+  static parse(source: string, file: string = 'inline'): CedarPolicy[] {
+    return new PolicyParser(source, file).parse();
+  }
+
+  evaluate(request: CedarEvaluationRequest): CedarEvaluationResponse {
+    const scope: Record<string, unknown> = {
+      principal: request.principal,
+      action: `Action::${request.action.type}`,
+      resource: request.resource,
+      context: request.context || {}
+    };
+
+    const matched = { permit: [] as CedarPolicy[], forbid: [] as CedarPolicy[] };
+    const errored: string[] = [];
+
+    for (const policy of this.policies) {
+      if (policy.actions && !policy.actions.includes(request.action.type)) {
+        continue;
+      }
+
+      try {
+        if (this.conditionsHold(policy, scope)) {
+          matched[policy.effect].push(policy);
+        }
+      } catch (error) {
+        if (!(error instanceof EvaluationError)) {
+          throw error;
+        }
+        errored.push(policy.id);
+      }
+    }
+
+    const determining = matched.forbid[0] || matched.permit[0];
+    const context = {
+      engine: 'local',
+      determining_policies: (matched.forbid.length > 0 ? matched.forbid : matched.permit).map(policy => policy.id),
+      ...(errored.length > 0 && { errored_policies: errored })
+    };
+
+    if (!determining) {
+      return {
+        allowed: false,
+        policy_id: 'default_deny',
+        reason: `No policy permits ${request.action.type}`,
+        context
+      };
+    }
+
+    const allowed = determining.effect === 'permit';
+    return {
+      allowed,
+      policy_id: determining.id,
+      reason: determining.reason || `${allowed ? 'Permitted' : 'Forbidden'} by policy ${determining.id}`,
+      context
+    };
+  }
+
+  private conditionsHold(policy: CedarPolicy, scope: Record<string, unknown>): boolean {
+    return policy.conditions.every(condition => {
+      const value = this.asBoolean(this.evaluateExpr(condition.expr, scope));
+      return condition.type === 'when' ? value : !value;
+    });
+  }
+
+  private evaluateExpr(expr: Expr, scope: Record<string, unknown>): unknown {
+    switch (expr.kind) {
+      case 'literal':
+      case 'entity':
+        return expr.value;
+
+      case 'variable':
+        return scope[expr.name];
+
+      case 'list':
+        return expr.items.map(item => this.evaluateExpr(item, scope));
+
+      case 'attribute': {
+        const value = this.attributeOf(this.evaluateExpr(expr.target, scope), expr.name);
+        if (value === undefined) {
+          throw new EvaluationError(`Attribute ${expr.name} does not exist`);
+        }
+        return value;
+      }
+
+      case 'has': {
+        const value = this.attributeOf(this.evaluateExpr(expr.target, scope), expr.name);
+        return value !== undefined && value !== null;
+      }
+
+      case 'call': {
+        const target = this.evaluateExpr(expr.target, scope);
+        const args = expr.args.map(arg => this.evaluateExpr(arg, scope));
+        if (!Array.isArray(target)) {
+          throw new EvaluationError(`${expr.method} requires a set`);
+        }
+
+        switch (expr.method) {
+          case 'contains':
+            return target.includes(args[0]);
+          case 'containsAny':
+            return this.asList(args[0]).some(item => target.includes(item));
+          case 'containsAll':
+            return this.asList(args[0]).every(item => target.includes(item));
+          default:
+            throw new EvaluationError(`Unknown method ${expr.method}`);
+        }
+      }
+
+      case 'not':
+        return !this.asBoolean(this.evaluateExpr(expr.operand, scope));
+
+      case 'binary': {
+        // Short-circuit like Cedar so guards such as `resource has x && ...` work
+        if (expr.op === '&&') {
+          return this.asBoolean(this.evaluateExpr(expr.left, scope)) && this.asBoolean(this.evaluateExpr(expr.right, scope));
+        }
+        if (expr.op === '||') {
+          return this.asBoolean(this.evaluateExpr(expr.left, scope)) || this.asBoolean(this.evaluateExpr(expr.right, scope));
+        }
+
+        const left = this.evaluateExpr(expr.left, scope);
+        const right = this.evaluateExpr(expr.right, scope);
+
+        switch (expr.op) {
+          case '==':
+            return left === right;
+          case '!=':
+            return left !== right;
+          case 'in':
+            return this.asList(right).includes(left);
+          default:
+            if (typeof left !== 'number' || typeof right !== 'number') {
+              throw new EvaluationError(`${expr.op} requires numbers`);
+            }
+            return expr.op === '<' ? left < right
+              : expr.op === '<=' ? left <= right
+              : expr.op === '>' ? left > right
+              : left >= right;
+        }
+      }
+    }
+  }
+
+  // Undefined unless the target is a record carrying the attribute
+  private attributeOf(target: unknown, name: string): unknown {
+    if (target === null || typeof target !== 'object') {
+      return undefined;
+    }
+    return (target as Record<string, unknown>)[name];
+  }
+
+  private asBoolean(value: unknown): boolean {
+    if (typeof value !== 'boolean') {
+      throw new EvaluationError('Expected a boolean');
+    }
+    return value;
+  }
+
+  private asList(value: unknown): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new EvaluationError('Expected a set');
+    }
+    return value;
+  }
+}
@@ -0,0 +1,128 @@
+import { CommentService } from './commentService';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkItemService } from './workItemService';
+import { Comment, User, WorkItem } from '../types';
+
+jest.mock('./loggerService');
+
+const author: User = { id: 'author', email: 'author@example.com', tenant_id: 'tenant-1', roles: ['Developer'] };
+const other: User = { id: 'other', email: 'other@example.com', tenant_id: 'tenant-1', roles: ['Developer'] };
+
+const workItem = { id: 'item-1', tenant_id: 'tenant-1', title: 'Ship it' } as WorkItem;
+
+describe('CommentService', () => {
+  let comments: Comment[];
+  let authorize: jest.Mock;
+  let publishCommentEvent: jest.Mock;
+  let service: CommentService;
+
+  beforeEach(() => {
+    comments = [{
+      id: 'comment-1',
+      tenant_id: 'tenant-1',
+      work_item_id: workItem.id,
+      author_id: author.id,
+      body: 'Hello @alice',
+      mentions: ['alice'],
+      created_at: new Date(),
+      updated_at: new Date()
+    }];
+    authorize = jest.fn();
+    publishCommentEvent = jest.fn();
+
+    const query = async (text: string, params: unknown[] = []) => {
+      if (text.startsWith('SELECT * FROM comments')) {
+        return { rows: comments.filter(comment => comment.id === params[0]).map(comment => ({ ...comment })) };
+      }
+      if (text.includes('UPDATE comments')) {
+        const comment = comments.find(candidate => candidate.id === params[2])!;
+        Object.assign(comment, { body: params[0], mentions: params[1] });
+        return { rows: [{ ...comment }] };
+      }
+      if (text.startsWith('DELETE FROM comments')) {
+        comments = comments.filter(comment => comment.id !== params[0]);
+        return { rows: [] };
+      }
+      throw new Error(`Unexpected query: ${text}`);
+    };
+    const client = { query };
+    const db = { query, transaction: (callback: (client: { query: typeof query }) => Promise<unknown>) => callback(client) };
+
+    service = new CommentService(
+      db as unknown as DatabaseService,
+      { publishCommentEvent } as unknown as EventOutboxService,
+      { authorize } as unknown as CedarAuthService,
+      { getWorkItemById: async () => workItem } as unknown as WorkItemService
+    );
+  });
+
+  describe('extractMentions', () => {
+    it('finds handles at the start, middle and end of a body', () => {
+      expect(service.extractMentions('@alice please ask @bob.smith and @carol-jones')).toEqual([
+        'alice', 'bob.smith', 'carol-jones'
+      ]);
+    });
+
+    it('ignores email addresses', () => {
+      expect(service.extractMentions('Mail alice@example.com or ping @bob')).toEqual(['bob']);
+    });
+
+    it('strips trailing punctuation', () => {
+      expect(service.extractMentions('Thanks @alice. Over to @bob-, then (@carol)!')).toEqual([
+        'alice', 'bob', 'carol'
+      ]);
+    });
+
+    it('returns each handle once', () => {
+      expect(service.extractMentions('@alice @bob @alice, again @alice')).toEqual(['alice', 'bob']);
+    });
+
+    it('ignores a lone or doubled @', () => {
+      expect(service.extractMentions('meet @ noon, @@alice')).toEqual([]);
+    });
+  });
+
+  describe('edit and delete', () => {
+    it('lets the author edit without a moderation check', async () => {
+      const updated = await service.updateComment(author, workItem.id, 'comment-1', { body: 'Hello @alice and @bob' });
+
+      expect(updated.mentions).toEqual(['alice', 'bob']);
+      expect(authorize).not.toHaveBeenCalled();
+
+      // Only the newly mentioned user is notified again
+      const mentioned = publishCommentEvent.mock.calls.filter(([, event]) => event.type === 'mentioned');
+      expect(mentioned).toHaveLength(1);
+      expect(mentioned[0][1].data.mention).toBe('bob');
+    });
+
+    it('requires moderate_comments for anyone else', async () => {
+      await service.updateComment(other, workItem.id, 'comment-1', { body: 'Edited' });
+
+      expect(authorize).toHaveBeenCalledWith(other, 'moderate_comments', workItem);
+    });
+
+    it('rejects edits by others who may not moderate', async () => {
+      authorize.mockRejectedValue(new Error('INSUFFICIENT_PERMISSIONS: moderate_comments'));
+
+      await expect(service.updateComment(other, workItem.id, 'comment-1', { body: 'Edited' }))
+        .rejects.toThrow('INSUFFICIENT_PERMISSIONS');
+      expect(comments[0].body).toBe('Hello @alice');
+    });
+
+    it('applies the same rule to deletes', async () => {
+      authorize.mockRejectedValueOnce(new Error('INSUFFICIENT_PERMISSIONS: moderate_comments'));
+      await expect(service.deleteComment(other, workItem.id, 'comment-1')).rejects.toThrow('INSUFFICIENT_PERMISSIONS');
+      expect(comments).toHaveLength(1);
+
+      await service.deleteComment(author, workItem.id, 'comment-1');
+      expect(comments).toHaveLength(0);
+      expect(publishCommentEvent).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ type: 'deleted' }));
+    });
+
+    it('reports a missing comment', async () => {
+      await expect(service.deleteComment(author, workItem.id, 'nope')).rejects.toThrow('COMMENT_NOT_FOUND');
+    });
+  });
+});
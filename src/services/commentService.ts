@@ -0,0 +1,283 @@
+// Comment Service for Work Item Discussions
+
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkItemService } from './workItemService';
+import { LoggerService } from './loggerService';
+import {
+  Comment,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  User,
+  WorkItem
+} from '../types';
+
+const MAX_COMMENT_LENGTH = 10000;
+
+export class CommentService {
+  private db: DatabaseService;
+  private outbox: EventOutboxService;
+  private cedarAuth: CedarAuthService;
+  private workItemService: WorkItemService;
+  private logger: LoggerService;
+
+  constructor(
+    db: DatabaseService,
+    outbox: EventOutboxService,
+    cedarAuth: CedarAuthService,
+    workItemService: WorkItemService
+  ) {
+    this.db = db;
+    this.outbox = outbox;
+    this.cedarAuth = cedarAuth;
+    this.workItemService = workItemService;
+    this.logger = new LoggerService();
+  }
+
+  async createComment(
+    user: User,
+    workItemId: string,
+    data: CreateCommentRequest
+  ): Promise<Comment> {
+    const body = this.validateBody(data.body);
+
+    return this.db.transaction(async (client) => {
+      // 1. Commenting requires read access to the work item
+      const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+      if (!workItem) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+
+      // 2. Create comment
+      const mentions = this.extractMentions(body);
+
+      const insertQuery = `
+        INSERT INTO comments (id, tenant_id, work_item_id, author_id, body, mentions)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *;
+      `;
+
+      const result = await client.query(insertQuery, [
+        uuidv4(),
+        user.tenant_id,
+        workItemId,
+        user.id,
+        body,
+        mentions
+      ]);
+
+      const comment: Comment = result.rows[0];
+
+      // 3. Publish events
+      await this.outbox.publishCommentEvent(client, {
+        type: 'created',
+        comment_id: comment.id,
+        work_item_id: workItemId,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        data: { comment },
+        timestamp: new Date()
+      });
+
+      await this.publishMentions(client, user, workItem, comment, mentions);
+
+      this.logger.info('Comment created', {
+        commentId: comment.id,
+        workItemId,
+        mentions: mentions.length,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+
+      return comment;
+    });
+  }
+
+  async getComments(user: User, workItemId: string): Promise<Comment[]> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const query = `
+      SELECT * FROM comments
+      WHERE tenant_id = $1 AND work_item_id = $2
+      ORDER BY created_at;
+    `;
+
+    const result = await this.db.query<Comment>(query, [user.tenant_id, workItemId]);
+    return result.rows;
+  }
+
+  async updateComment(
+    user: User,
+    workItemId: string,
+    commentId: string,
+    data: UpdateCommentRequest
+  ): Promise<Comment> {
+    const body = this.validateBody(data.body);
+
+    return this.db.transaction(async (client) => {
+      // 1. Get existing comment
+      const { workItem, comment: existing } = await this.getEditableComment(user, workItemId, commentId);
+
+      // 2. Update comment
+      const mentions = this.extractMentions(body);
+
+      const updateQuery = `
+        UPDATE comments
+        SET body = $1, mentions = $2
+        WHERE id = $3 AND tenant_id = $4
+        RETURNING *;
+      `;
+
+      const result = await client.query(updateQuery, [body, mentions, commentId, user.tenant_id]);
+      const comment: Comment = result.rows[0];
+
+      // 3. Publish events, notifying only users who were not already mentioned
+      await this.outbox.publishCommentEvent(client, {
+        type: 'updated',
+        comment_id: commentId,
+        work_item_id: workItemId,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        data: {
+          before: existing,
+          after: comment
+        },
+        timestamp: new Date()
+      });
+
+      const previousMentions = existing.mentions || [];
+      const newMentions = mentions.filter(mention => !previousMentions.includes(mention));
+      await this.publishMentions(client, user, workItem, comment, newMentions);
+
+      this.logger.info('Comment updated', {
+        commentId,
+        workItemId,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+
+      return comment;
+    });
+  }
+
+  async deleteComment(user: User, workItemId: string, commentId: string): Promise<void> {
+    return this.db.transaction(async (client) => {
+      // 1. Get existing comment
+      const { comment } = await this.getEditableComment(user, workItemId, commentId);
+
+      // 2. Delete comment
+      await client.query(
+        'DELETE FROM comments WHERE id = $1 AND tenant_id = $2;',
+        [commentId, user.tenant_id]
+      );
+
+      // 3. Publish event
+      await this.outbox.publishCommentEvent(client, {
+        type: 'deleted',
+        comment_id: commentId,
+        work_item_id: workItemId,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        data: { comment },
+        timestamp: new Date()
+      });
+
+      this.logger.info('Comment deleted', {
+        commentId,
+        workItemId,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+    });
+  }
+
+  /**
+   * Extract unique @mention handles from a comment body. Email addresses are
+   * not treated as mentions because the @ must not follow a word character.
+   */
+  extractMentions(body: string): string[] {
+    const mentions = new Set<string>();
+    const pattern = /(^|[^\w@])@([\w][\w.-]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(body)) !== null) {
+      mentions.add(match[2].replace(/[.-]+$/, ''));
+    }
+
+    return Array.from(mentions);
+  }
+
+  /**
+   * Only the author, or a user Cedar allows to moderate the work item's
+   * comments, may edit or delete a comment
+   */
+  private async getEditableComment(
+    user: User,
+    workItemId: string,
+    commentId: string
+  ): Promise<{ workItem: WorkItem; comment: Comment }> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const result = await this.db.query<Comment>(
+      'SELECT * FROM comments WHERE id = $1 AND tenant_id = $2 AND work_item_id = $3;',
+      [commentId, user.tenant_id, workItemId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('COMMENT_NOT_FOUND');
+    }
+
+    const comment: Comment = result.rows[0];
+
+    if (comment.author_id !== user.id) {
+      await this.cedarAuth.authorize(user, 'moderate_comments', workItem);
+    }
+
+    return { workItem, comment };
+  }
+
+  private async publishMentions(
+    client: PoolClient,
+    user: User,
+    workItem: WorkItem,
+    comment: Comment,
+    mentions: string[]
+  ): Promise<void> {
+    for (const mention of mentions) {
+      await this.outbox.publishCommentEvent(client, {
+        type: 'mentioned',
+        comment_id: comment.id,
+        work_item_id: workItem.id,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        data: {
+          mention,
+          work_item_title: workItem.title,
+          body: comment.body
+        },
+        timestamp: new Date()
+      });
+    }
+  }
+
+  private validateBody(body: string): string {
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      throw new Error('INVALID_COMMENT: Comment body is required');
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`INVALID_COMMENT: Comment body exceeds ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    return body.trim();
+  }
+}
@@ -0,0 +1,109 @@
+import { buildKeyset, decodeCursor, encodeCursor, formatSort, parseSort } from './cursorPagination';
+
+const ID = '4f1c2d3e-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+
+describe('cursorPagination', () => {
+  describe('parseSort', () => {
+    it('defaults to newest first', () => {
+      expect(parseSort()).toEqual([{ field: 'created_at', direction: 'desc' }]);
+    });
+
+    it('round-trips through formatSort', () => {
+      const keys = parseSort('priority, -due_at,+title');
+
+      expect(keys).toEqual([
+        { field: 'priority', direction: 'asc' },
+        { field: 'due_at', direction: 'desc' },
+        { field: 'title', direction: 'asc' }
+      ]);
+      expect(formatSort(keys)).toBe('priority,-due_at,title');
+    });
+
+    it('rejects unknown and empty sorts', () => {
+      expect(() => parseSort('owner_id')).toThrow('INVALID_SORT: Unsupported sort field owner_id');
+      expect(() => parseSort(' , ')).toThrow('INVALID_SORT');
+    });
+  });
+
+  describe('cursors', () => {
+    const keys = parseSort('-due_at,priority');
+    const payload = {
+      sort: '-due_at,priority',
+      values: ['2024-03-01 09:30:00.123456+00', '3'],
+      id: ID,
+      direction: 'next' as const
+    };
+
+    it('decode what they encode', () => {
+      const cursor = encodeCursor(payload);
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor, keys)).toEqual(payload);
+    });
+
+    it('accept the infinity placeholders used for missing dates', () => {
+      const cursor = encodeCursor({ ...payload, values: ['-infinity', '1'], direction: 'prev' });
+
+      expect(decodeCursor(cursor, keys).values).toEqual(['-infinity', '1']);
+    });
+
+    it('reject garbage', () => {
+      expect(() => decodeCursor('not a cursor!', keys)).toThrow('INVALID_CURSOR');
+      expect(() => decodeCursor(Buffer.from('null').toString('base64url'), keys)).toThrow('INVALID_CURSOR');
+    });
+
+    it('reject a cursor issued for another sort order', () => {
+      const cursor = encodeCursor(payload);
+
+      expect(() => decodeCursor(cursor, parseSort('-due_at'))).toThrow(
+        'INVALID_CURSOR: Cursor does not match the requested sort order'
+      );
+    });
+
+    it.each([
+      ['a non-uuid id', { id: "1' OR '1'='1" }],
+      ['a malformed timestamp', { values: ['yesterday', '3'] }],
+      ['a non-integer rank', { values: ['2024-03-01 09:30:00+00', '3.5'] }],
+      ['a non-string value', { values: [20240301, '3'] }],
+      ['too few values', { values: ['2024-03-01 09:30:00+00'] }],
+      ['an unknown direction', { direction: 'sideways' }]
+    ])('reject a tampered cursor with %s', (_, change) => {
+      const cursor = encodeCursor({ ...payload, ...change } as typeof payload);
+
+      expect(() => decodeCursor(cursor, keys)).toThrow('INVALID_CURSOR');
+    });
+  });
+
+  describe('buildKeyset', () => {
+    const keys = parseSort('-created_at');
+
+    it('orders without a predicate on the first page', () => {
+      const keyset = buildKeyset(keys, null, false, 5);
+
+      expect(keyset.select).toBe('(created_at)::text as _sort_0');
+      expect(keyset.orderBy).toBe('created_at DESC, id ASC');
+      expect(keyset.where).toBeNull();
+      expect(keyset.values).toEqual([]);
+    });
+
+    it('seeks past the cursor row', () => {
+      const cursor = { sort: '-created_at', values: ['2024-03-01 09:30:00+00'], id: ID, direction: 'next' as const };
+      const keyset = buildKeyset(keys, cursor, false, 5);
+
+      expect(keyset.where).toBe(
+        '((created_at < $5::timestamptz) OR (created_at = $5::timestamptz AND id > $6::uuid))'
+      );
+      expect(keyset.values).toEqual(['2024-03-01 09:30:00+00', ID]);
+    });
+
+    it('flips every direction when reading backwards', () => {
+      const cursor = { sort: '-created_at', values: ['2024-03-01 09:30:00+00'], id: ID, direction: 'prev' as const };
+      const keyset = buildKeyset(keys, cursor, true, 2);
+
+      expect(keyset.orderBy).toBe('created_at ASC, id DESC');
+      expect(keyset.where).toBe(
+        '((created_at > $2::timestamptz) OR (created_at = $2::timestamptz AND id < $3::uuid))'
+      );
+    });
+  });
+});
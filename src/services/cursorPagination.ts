@@ -0,0 +1,161 @@
+// Keyset (cursor) pagination helpers for work item listings
+
+import { SortKey } from '../types';
+
+interface SortField {
+  // SQL expression over the listed row; must never be NULL
+  expression: (direction: SortKey['direction']) => string;
+  cast: string;
+}
+
+// Nullable columns sort last in either direction
+const nullsLast = (column: string) => (direction: SortKey['direction']) =>
+  `COALESCE(${column}, '${direction === 'asc' ? 'infinity' : '-infinity'}'::timestamptz)`;
+
+export const SORT_FIELDS: Record<string, SortField> = {
+  created_at: { expression: () => 'created_at', cast: 'timestamptz' },
+  updated_at: { expression: () => 'updated_at', cast: 'timestamptz' },
+  due_at: { expression: nullsLast('due_at'), cast: 'timestamptz' },
+  completed_at: { expression: nullsLast('completed_at'), cast: 'timestamptz' },
+  title: { expression: () => 'title', cast: 'text' },
+  type: { expression: () => 'type', cast: 'text' },
+  status: { expression: () => 'status', cast: 'text' },
+  priority: {
+    expression: () => `CASE priority WHEN 'critical' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END`,
+    cast: 'integer'
+  }
+};
+
+export const DEFAULT_SORT = '-created_at';
+
+// Cursor values are echoed back into `$n::<cast>` parameters, so each must parse as its cast
+const CAST_PATTERNS: Record<string, RegExp> = {
+  timestamptz: /^(-?infinity|\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2}){0,2})?)$/,
+  integer: /^-?\d{1,9}$/,
+  text: /^[\s\S]*$/
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CursorPayload {
+  sort: string;
+  values: string[];
+  id: string;
+  direction: 'next' | 'prev';
+}
+
+/**
+ * Parse `field` / `-field` into sort keys
+ */
+export function parseSort(sort: string = DEFAULT_SORT): SortKey[] {
+  const keys = sort.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const direction: SortKey['direction'] = part.startsWith('-') ? 'desc' : 'asc';
+    const field = part.replace(/^[-+]/, '');
+
+    if (!SORT_FIELDS[field]) {
+      throw new Error(`INVALID_SORT: Unsupported sort field ${field}`);
+    }
+
+    return { field, direction };
+  });
+
+  if (keys.length === 0) {
+    throw new Error('INVALID_SORT: At least one sort field is required');
+  }
+
+  return keys;
+}
+
+export function formatSort(keys: SortKey[]): string {
+  return keys.map(key => `${key.direction === 'desc' ? '-' : ''}${key.field}`).join(',');
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorPayload {
+  let payload: CursorPayload;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('INVALID_CURSOR: Cursor could not be decoded');
+  }
+
+  if (
+    !payload ||
+    payload.sort !== formatSort(keys) ||
+    !Array.isArray(payload.values) ||
+    payload.values.length !== keys.length ||
+    typeof payload.id !== 'string' ||
+    !['next', 'prev'].includes(payload.direction)
+  ) {
+    throw new Error('INVALID_CURSOR: Cursor does not match the requested sort order');
+  }
+
+  const malformed = !UUID_PATTERN.test(payload.id) || keys.some((key, index) => {
+    const value = payload.values[index];
+    return typeof value !== 'string' || !CAST_PATTERNS[SORT_FIELDS[key.field].cast].test(value);
+  });
+
+  if (malformed) {
+    throw new Error('INVALID_CURSOR: Cursor values are malformed');
+  }
+
+  return payload;
+}
+
+/**
+ * Build the select list, ORDER BY and keyset predicate for the given keys.
+ * `reverse` flips every direction, which is how previous pages are read.
+ * Sort values are selected as text (`_sort_<n>`) so cursors keep full precision.
+ */
+export function buildKeyset(
+  keys: SortKey[],
+  cursor: CursorPayload | null,
+  reverse: boolean,
+  firstParamIndex: number
+): { select: string; orderBy: string; where: string | null; values: string[] } {
+  const flip = (direction: SortKey['direction']): SortKey['direction'] =>
+    reverse ? (direction === 'asc' ? 'desc' : 'asc') : direction;
+
+  const select = keys
+    .map((key, index) => `(${SORT_FIELDS[key.field].expression(key.direction)})::text as _sort_${index}`)
+    .join(', ');
+
+  const orderBy = [
+    ...keys.map(key => `${SORT_FIELDS[key.field].expression(key.direction)} ${flip(key.direction).toUpperCase()}`),
+    `id ${reverse ? 'DESC' : 'ASC'}`
+  ].join(', ');
+
+  if (!cursor) {
+    return { select, orderBy, where: null, values: [] };
+  }
+
+  const values: string[] = [];
+  let paramIndex = firstParamIndex;
+  const param = (value: string, cast: string) => {
+    values.push(value);
+    return `$${paramIndex++}::${cast}`;
+  };
+
+  const cursorParams = keys.map((key, index) => param(cursor.values[index], SORT_FIELDS[key.field].cast));
+  const idParam = param(cursor.id, 'uuid');
+
+  // (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... OR (all equal AND id > v_id)
+  const clauses: string[] = [];
+  for (let i = 0; i <= keys.length; i++) {
+    const equalities = keys.slice(0, i).map((key, index) =>
+      `${SORT_FIELDS[key.field].expression(key.direction)} = ${cursorParams[index]}`
+    );
+
+    const comparison = i < keys.length
+      ? `${SORT_FIELDS[keys[i].field].expression(keys[i].direction)} ${flip(keys[i].direction) === 'asc' ? '>' : '<'} ${cursorParams[i]}`
+      : `id ${reverse ? '<' : '>'} ${idParam}`;
+
+    clauses.push(`(${[...equalities, comparison].join(' AND ')})`);
+  }
+
+  return { select, orderBy, where: `(${clauses.join(' OR ')})`, values };
+}
@@ -0,0 +1,147 @@
+import { DependencyService } from './dependencyService';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkItemService } from './workItemService';
+import { DependencyEdge, DependencyType, User, WorkItem } from '../types';
+
+jest.mock('./loggerService');
+
+const user: User = { id: 'user-1', email: 'user@example.com', tenant_id: 'tenant-1', roles: ['Manager'] };
+
+/**
+ * dependency_edges in memory, answering the service's cycle and insert queries
+ */
+class FakeDependencyClient {
+  edges: DependencyEdge[] = [];
+  locks: string[] = [];
+
+  async query(text: string, params: unknown[] = []): Promise<{ rows: unknown[] }> {
+    if (text.includes('pg_advisory_xact_lock')) {
+      this.locks.push(params[0] as string);
+      return { rows: [] };
+    }
+
+    if (text.includes('WITH RECURSIVE reachable')) {
+      const [tenantId, start, target] = params as string[];
+      const reachable = new Set<string>();
+      const frontier = [start];
+
+      while (frontier.length > 0) {
+        const current = frontier.pop()!;
+        for (const edge of this.edges) {
+          if (edge.tenant_id === tenantId && edge.from_id === current && !reachable.has(edge.to_id)) {
+            reachable.add(edge.to_id);
+            frontier.push(edge.to_id);
+          }
+        }
+      }
+
+      return { rows: [{ has_cycle: reachable.has(target) }] };
+    }
+
+    if (text.includes('INSERT INTO dependency_edges')) {
+      const [id, tenant_id, from_id, to_id, dependency_type, lag_days, created_by] = params as [
+        string, string, string, string, DependencyType, number, string
+      ];
+      if (this.edges.some(edge => edge.from_id === from_id && edge.to_id === to_id)) {
+        return { rows: [] };
+      }
+
+      const edge: DependencyEdge = {
+        id, tenant_id, from_id, to_id, dependency_type, lag_days, created_by,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      this.edges.push(edge);
+      return { rows: [edge] };
+    }
+
+    throw new Error(`Unexpected query: ${text}`);
+  }
+}
+
+describe('DependencyService', () => {
+  let client: FakeDependencyClient;
+  let service: DependencyService;
+  let publishDependencyEvent: jest.Mock;
+  let authorize: jest.Mock;
+
+  const link = (from: string, to: string) => service.createDependency(user, from, { to_id: to });
+
+  beforeEach(() => {
+    client = new FakeDependencyClient();
+    publishDependencyEvent = jest.fn();
+    authorize = jest.fn();
+
+    const db = { transaction: (callback: (client: FakeDependencyClient) => Promise<unknown>) => callback(client) };
+    const workItems = {
+      getWorkItemById: async (_: User, id: string) =>
+        id === 'missing' ? null : ({ id, tenant_id: user.tenant_id } as WorkItem)
+    };
+
+    service = new DependencyService(
+      db as unknown as DatabaseService,
+      { publishDependencyEvent } as unknown as EventOutboxService,
+      { authorize } as unknown as CedarAuthService,
+      workItems as unknown as WorkItemService
+    );
+  });
+
+  it('creates a finish-to-start edge by default and publishes it', async () => {
+    const edge = await link('a', 'b');
+
+    expect(edge).toMatchObject({ from_id: 'a', to_id: 'b', dependency_type: DependencyType.FINISH_TO_START, lag_days: 0 });
+    expect(authorize).toHaveBeenCalledWith(user, 'update', expect.objectContaining({ id: 'a' }));
+    expect(client.locks).toEqual(['dependency_edges:tenant-1']);
+    expect(publishDependencyEvent).toHaveBeenCalledWith(client, expect.objectContaining({ type: 'created', from_id: 'a', to_id: 'b' }));
+  });
+
+  it('rejects a self-dependency before touching the database', async () => {
+    await expect(link('a', 'a')).rejects.toThrow('INVALID_DEPENDENCY: A work item cannot depend on itself');
+    expect(client.locks).toEqual([]);
+  });
+
+  it('rejects a direct cycle', async () => {
+    await link('a', 'b');
+
+    await expect(link('b', 'a')).rejects.toThrow('DEPENDENCY_CYCLE');
+    expect(client.edges).toHaveLength(1);
+  });
+
+  it('rejects a transitive cycle', async () => {
+    await link('a', 'b');
+    await link('b', 'c');
+    await link('c', 'd');
+
+    await expect(link('d', 'a')).rejects.toThrow('DEPENDENCY_CYCLE');
+    expect(publishDependencyEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it('allows diamonds, which are not cycles', async () => {
+    await link('a', 'b');
+    await link('a', 'c');
+    await link('b', 'd');
+
+    await expect(link('c', 'd')).resolves.toMatchObject({ from_id: 'c', to_id: 'd' });
+  });
+
+  it('reports a duplicate edge as DEPENDENCY_EXISTS', async () => {
+    await link('a', 'b');
+
+    await expect(link('a', 'b')).rejects.toThrow('DEPENDENCY_EXISTS');
+    expect(publishDependencyEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates the dependency type and lag', async () => {
+    await expect(service.createDependency(user, 'a', { to_id: 'b', dependency_type: 'sideways' as DependencyType }))
+      .rejects.toThrow('INVALID_DEPENDENCY_TYPE: sideways');
+    await expect(service.createDependency(user, 'a', { to_id: 'b', lag_days: 1.5 }))
+      .rejects.toThrow('INVALID_LAG_DAYS');
+  });
+
+  it('requires both ends to be readable', async () => {
+    await expect(link('missing', 'b')).rejects.toThrow('WORK_ITEM_NOT_FOUND');
+    await expect(link('a', 'missing')).rejects.toThrow('DEPENDENCY_TARGET_NOT_FOUND');
+  });
+});
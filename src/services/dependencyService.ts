@@ -0,0 +1,226 @@
+// Dependency Service for Scheduling Edges Between Work Items
+
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkItemService } from './workItemService';
+import { LoggerService } from './loggerService';
+import {
+  CreateDependencyRequest,
+  DependencyEdge,
+  DependencyType,
+  User
+} from '../types';
+
+export class DependencyService {
+  private db: DatabaseService;
+  private outbox: EventOutboxService;
+  private cedarAuth: CedarAuthService;
+  private workItemService: WorkItemService;
+  private logger: LoggerService;
+
+  constructor(
+    db: DatabaseService,
+    outbox: EventOutboxService,
+    cedarAuth: CedarAuthService,
+    workItemService: WorkItemService
+  ) {
+    this.db = db;
+    this.outbox = outbox;
+    this.cedarAuth = cedarAuth;
+    this.workItemService = workItemService;
+    this.logger = new LoggerService();
+  }
+
+  async createDependency(
+    user: User,
+    workItemId: string,
+    data: CreateDependencyRequest
+  ): Promise<DependencyEdge> {
+    const dependencyType = data.dependency_type || DependencyType.FINISH_TO_START;
+    const lagDays = data.lag_days ?? 0;
+
+    if (!Object.values(DependencyType).includes(dependencyType)) {
+      throw new Error(`INVALID_DEPENDENCY_TYPE: ${dependencyType}`);
+    }
+
+    if (!Number.isInteger(lagDays)) {
+      throw new Error('INVALID_LAG_DAYS: lag_days must be an integer');
+    }
+
+    if (data.to_id === workItemId) {
+      throw new Error('INVALID_DEPENDENCY: A work item cannot depend on itself');
+    }
+
+    return this.db.transaction(async (client) => {
+      // 1. Both ends must exist in the caller's tenant and be readable
+      const from = await this.workItemService.getWorkItemById(user, workItemId);
+      if (!from) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+
+      const to = await this.workItemService.getWorkItemById(user, data.to_id);
+      if (!to) {
+        throw new Error('DEPENDENCY_TARGET_NOT_FOUND: Specified target work item does not exist');
+      }
+
+      // 2. Check authorization
+      await this.cedarAuth.authorize(user, 'update', from);
+
+      // 3. Serialize dependency writes per tenant so two concurrent inserts
+      // cannot each pass the cycle check and close a loop together
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1));', [`dependency_edges:${user.tenant_id}`]);
+
+      if (await this.wouldCreateCycle(client, user.tenant_id, workItemId, data.to_id)) {
+        throw new Error('DEPENDENCY_CYCLE: Adding this dependency would create a cycle');
+      }
+
+      // 4. Create dependency edge
+      const insertQuery = `
+        INSERT INTO dependency_edges (
+          id, tenant_id, from_id, to_id, dependency_type, lag_days, created_by, metadata
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (from_id, to_id) DO NOTHING
+        RETURNING *;
+      `;
+
+      const result = await client.query(insertQuery, [
+        uuidv4(),
+        user.tenant_id,
+        workItemId,
+        data.to_id,
+        dependencyType,
+        lagDays,
+        user.id,
+        data.metadata || {}
+      ]);
+
+      if (result.rows.length === 0) {
+        throw new Error('DEPENDENCY_EXISTS: A dependency between these work items already exists');
+      }
+
+      const dependency: DependencyEdge = result.rows[0];
+
+      // 5. Publish event
+      await this.outbox.publishDependencyEvent(client, {
+        type: 'created',
+        dependency_id: dependency.id,
+        from_id: dependency.from_id,
+        to_id: dependency.to_id,
+        dependency_type: dependency.dependency_type,
+        lag_days: dependency.lag_days,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        timestamp: new Date()
+      });
+
+      this.logger.info('Dependency edge created', {
+        dependencyId: dependency.id,
+        fromId: dependency.from_id,
+        toId: dependency.to_id,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+
+      return dependency;
+    });
+  }
+
+  async getDependencies(user: User, workItemId: string): Promise<DependencyEdge[]> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const query = `
+      SELECT de.*,
+             f.title as from_title,
+             t.title as to_title
+      FROM dependency_edges de
+      JOIN work_items f ON de.from_id = f.id AND f.tenant_id = de.tenant_id AND f.deleted_at IS NULL
+      JOIN work_items t ON de.to_id = t.id AND t.tenant_id = de.tenant_id AND t.deleted_at IS NULL
+      WHERE de.tenant_id = $1
+      AND (de.from_id = $2 OR de.to_id = $2)
+      ORDER BY de.created_at;
+    `;
+
+    const result = await this.db.query<DependencyEdge>(query, [user.tenant_id, workItemId]);
+    return result.rows;
+  }
+
+  async deleteDependency(user: User, workItemId: string, dependencyId: string): Promise<void> {
+    return this.db.transaction(async (client) => {
+      // 1. Get existing work item
+      const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+      if (!workItem) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+
+      // 2. Check authorization
+      await this.cedarAuth.authorize(user, 'update', workItem);
+
+      // 3. Delete dependency edge
+      const deleteQuery = `
+        DELETE FROM dependency_edges
+        WHERE id = $1 AND tenant_id = $2 AND (from_id = $3 OR to_id = $3)
+        RETURNING *;
+      `;
+
+      const result = await client.query(deleteQuery, [dependencyId, user.tenant_id, workItemId]);
+      if (result.rows.length === 0) {
+        throw new Error('DEPENDENCY_NOT_FOUND');
+      }
+
+      const dependency: DependencyEdge = result.rows[0];
+
+      // 4. Publish event
+      await this.outbox.publishDependencyEvent(client, {
+        type: 'deleted',
+        dependency_id: dependency.id,
+        from_id: dependency.from_id,
+        to_id: dependency.to_id,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        timestamp: new Date()
+      });
+
+      this.logger.info('Dependency edge deleted', {
+        dependencyId,
+        workItemId,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+    });
+  }
+
+  /**
+   * A new edge from -> to closes a cycle if `from` is already reachable from `to`
+   */
+  private async wouldCreateCycle(
+    client: PoolClient,
+    tenantId: string,
+    fromId: string,
+    toId: string
+  ): Promise<boolean> {
+    const query = `
+      WITH RECURSIVE reachable AS (
+        SELECT de.to_id
+        FROM dependency_edges de
+        WHERE de.tenant_id = $1 AND de.from_id = $2
+
+        UNION
+
+        SELECT de.to_id
+        FROM dependency_edges de
+        JOIN reachable r ON de.from_id = r.to_id
+        WHERE de.tenant_id = $1
+      )
+      SELECT EXISTS (SELECT 1 FROM reachable WHERE to_id = $3) as has_cycle;
+    `;
+
+    const result = await client.query(query, [tenantId, toId, fromId]);
+    return result.rows[0].has_cycle;
+  }
+}
@@ -0,0 +1,187 @@
+import { EventConsumerService } from './eventConsumerService';
+import { InMemoryMessageQueue } from './messageQueueService';
+import { AfterCommit, DatabaseConnection, EventHandler, MessageMetadata } from '../types';
+
+jest.mock('./loggerService');
+
+interface QueryResult {
+  rows: unknown[];
+  rowCount?: number;
+}
+
+/**
+ * processed_events plus a log of handler writes, both rolled back together
+ * when a transaction throws
+ */
+class FakeConsumerDatabase {
+  processed = new Set<string>();
+  writes: string[] = [];
+
+  async query(text: string): Promise<QueryResult> {
+    if (text.includes('DELETE FROM processed_events')) {
+      return { rows: [], rowCount: 0 };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  }
+
+  async transaction<T>(callback: (client: { query: FakeConsumerDatabase['clientQuery'] }) => Promise<T>): Promise<T> {
+    const processed = new Set(this.processed);
+    const writes = [...this.writes];
+
+    try {
+      return await callback({ query: this.clientQuery });
+    } catch (error) {
+      this.processed = processed;
+      this.writes = writes;
+      throw error;
+    }
+  }
+
+  private clientQuery = async (text: string, params: unknown[] = []): Promise<QueryResult> => {
+    if (text.includes('INSERT INTO processed_events')) {
+      const key = `${params[0]}|${params[1]}`;
+      if (this.processed.has(key)) {
+        return { rows: [] };
+      }
+      this.processed.add(key);
+      return { rows: [{ idempotency_key: params[1] }] };
+    }
+
+    this.writes.push(text);
+    return { rows: [], rowCount: 1 };
+  };
+}
+
+class RecordingHandler implements EventHandler {
+  readonly name = 'recording';
+  readonly exchange = 'users';
+  readonly routingKey = 'user.*';
+  failures = 0;
+  handled: unknown[] = [];
+  afterCommit?: AfterCommit;
+
+  async handle(client: { query: (text: string) => Promise<QueryResult> }, event: unknown, _metadata: MessageMetadata): Promise<void | AfterCommit> {
+    await client.query('UPDATE work_items');
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Handler failed');
+    }
+    this.handled.push(event);
+    return this.afterCommit;
+  }
+}
+
+describe('EventConsumerService', () => {
+  let db: FakeConsumerDatabase;
+  let queue: InMemoryMessageQueue;
+  let handler: RecordingHandler;
+  let consumer: EventConsumerService;
+  const originalRetries = process.env.CONSUMER_MAX_RETRIES;
+
+  beforeEach(async () => {
+    process.env.CONSUMER_MAX_RETRIES = '2';
+    db = new FakeConsumerDatabase();
+    queue = new InMemoryMessageQueue();
+    handler = new RecordingHandler();
+    consumer = new EventConsumerService(db as unknown as DatabaseConnection, queue);
+    consumer.register(handler);
+    await consumer.start();
+  });
+
+  afterEach(async () => {
+    await consumer.stop();
+    if (originalRetries === undefined) {
+      delete process.env.CONSUMER_MAX_RETRIES;
+    } else {
+      process.env.CONSUMER_MAX_RETRIES = originalRetries;
+    }
+  });
+
+  it('handles a matching event once and records its key', async () => {
+    await queue.publish('users', 'user.deactivated', { id: 'event-1', tenant_id: 'tenant-1' });
+
+    expect(handler.handled).toEqual([{ id: 'event-1', tenant_id: 'tenant-1' }]);
+    expect(db.processed).toEqual(new Set(['recording|event-1']));
+    expect(db.writes).toHaveLength(1);
+  });
+
+  it('skips a duplicate delivery without running the handler again', async () => {
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+
+    expect(handler.handled).toHaveLength(1);
+    expect(db.writes).toHaveLength(1);
+  });
+
+  it('collapses redeliveries of events without ids by content', async () => {
+    await queue.publish('users', 'user.deactivated', { tenant_id: 'tenant-1', user_id: 'user-1' });
+    await queue.publish('users', 'user.deactivated', { tenant_id: 'tenant-1', user_id: 'user-1' });
+    await queue.publish('users', 'user.deactivated', { tenant_id: 'tenant-1', user_id: 'user-2' });
+
+    expect(handler.handled).toHaveLength(2);
+  });
+
+  it('uses the message id when the event has no key of its own', async () => {
+    await queue.publish('users', 'user.deactivated', { user_id: 'user-1' }, { messageId: 'message-1' });
+    await queue.publish('users', 'user.deactivated', { user_id: 'user-2' }, { messageId: 'message-1' });
+
+    expect(handler.handled).toEqual([{ user_id: 'user-1' }]);
+  });
+
+  it('rolls back a failed attempt and retries it', async () => {
+    handler.failures = 1;
+
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+
+    expect(handler.handled).toHaveLength(1);
+    expect(db.writes).toHaveLength(1);
+    expect(queue.deadLettered).toEqual([]);
+  });
+
+  it('dead-letters an event once retries are exhausted, leaving it unclaimed', async () => {
+    handler.failures = 3;
+
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+
+    expect(handler.handled).toEqual([]);
+    expect(queue.deadLettered).toEqual([expect.objectContaining({
+      queue: 'work-item-service.recording',
+      routingKey: 'user.deactivated',
+      error: 'Handler failed'
+    })]);
+    expect(db.processed.size).toBe(0);
+    expect(db.writes).toEqual([]);
+  });
+
+  it('never delivers event types the handler is not bound to', async () => {
+    await queue.publish('users', 'user.created.v2', { id: 'event-1' });
+    await queue.publish('tenants', 'user.deactivated', { id: 'event-2' });
+
+    expect(handler.handled).toEqual([]);
+    expect(db.processed.size).toBe(0);
+    expect(queue.deadLettered).toEqual([]);
+  });
+
+  it('runs deferred work after commit and does not retry it', async () => {
+    const afterCommit = jest.fn().mockRejectedValue(new Error('Blob store down'));
+    handler.afterCommit = afterCommit;
+
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+
+    expect(afterCommit).toHaveBeenCalledTimes(1);
+    expect(handler.handled).toHaveLength(1);
+    expect(queue.deadLettered).toEqual([]);
+  });
+
+  it('stops consuming after stop()', async () => {
+    await consumer.stop();
+
+    await queue.publish('users', 'user.deactivated', { id: 'event-1' });
+
+    expect(handler.handled).toEqual([]);
+  });
+
+  it('refuses to register two handlers with the same name', () => {
+    expect(() => consumer.register(new RecordingHandler())).toThrow('Event handler already registered: recording');
+  });
+});
@@ -0,0 +1,170 @@
+// Event Consumer Service - runs named handlers for other services' events
+
+import { createHash } from 'crypto';
+import { AfterCommit, DatabaseConnection, EventHandler, MessageMetadata, MessageQueueConnection } from '../types';
+import { LoggerService } from './loggerService';
+import { runAsSystem } from './tenantContext';
+
+const QUEUE_PREFIX = 'work-item-service';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class EventConsumerService {
+  private db: DatabaseConnection;
+  private messageQueue: MessageQueueConnection;
+  private logger: LoggerService;
+  private handlers = new Map<string, EventHandler>();
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private retentionHours: number;
+  private inFlight = new Set<Promise<void>>();
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(db: DatabaseConnection, messageQueue: MessageQueueConnection) {
+    this.db = db;
+    this.messageQueue = messageQueue;
+    this.logger = new LoggerService();
+    this.maxRetries = parseInt(process.env.CONSUMER_MAX_RETRIES || '5');
+    this.retryDelayMs = parseInt(process.env.CONSUMER_RETRY_DELAY_MS || '10000');
+    // Must outlast the longest redelivery, or a late duplicate would run again
+    this.retentionHours = parseInt(process.env.PROCESSED_EVENTS_RETENTION_HOURS || '168');
+  }
+
+  register(handler: EventHandler): void {
+    if (this.handlers.has(handler.name)) {
+      throw new Error(`Event handler already registered: ${handler.name}`);
+    }
+    this.handlers.set(handler.name, handler);
+  }
+
+  async start(): Promise<void> {
+    for (const handler of this.handlers.values()) {
+      await this.messageQueue.subscribe(
+        this.queueName(handler),
+        (event, metadata) => this.track(this.dispatch(handler, event, metadata)),
+        {
+          exchange: handler.exchange,
+          routingKeys: [handler.routingKey],
+          maxRetries: this.maxRetries,
+          retryDelayMs: this.retryDelayMs
+        }
+      );
+    }
+
+    this.purgeTimer = setInterval(() => this.runPurge(), PURGE_INTERVAL_MS);
+
+    this.logger.info('Event consumers started', { handlers: Array.from(this.handlers.keys()) });
+  }
+
+  /**
+   * Cancel every subscription and wait for messages already being handled,
+   * so nothing is acknowledged after the database pool closes.
+   */
+  async stop(): Promise<void> {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+
+    for (const handler of this.handlers.values()) {
+      await this.messageQueue.unsubscribe(this.queueName(handler));
+    }
+
+    await Promise.allSettled(Array.from(this.inFlight));
+
+    this.logger.info('Event consumers stopped');
+  }
+
+  /**
+   * Forget idempotency keys older than the retention window
+   */
+  async purgeProcessed(): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM processed_events WHERE processed_at < NOW() - ($1 || ' hours')::interval;`,
+      [this.retentionHours]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Run a handler at most once per idempotency key. The key is recorded in
+   * the same transaction as the handler's writes, so a redelivered message
+   * that already committed is acknowledged without running again. Throwing
+   * lets the transport retry and eventually dead-letter the message. Work a
+   * handler defers until after commit is best-effort: the key is already
+   * recorded, so a failure there is logged rather than retried.
+   */
+  async dispatch(handler: EventHandler, event: unknown, metadata: MessageMetadata): Promise<void> {
+    const idempotencyKey = this.getIdempotencyKey(event, metadata);
+    // Events arrive for any tenant; handlers filter by the event's tenant themselves
+    const outcome = await runAsSystem(() => this.db.transaction(async (client): Promise<{ afterCommit: AfterCommit | void } | null> => {
+      const claim = await client.query(`
+        INSERT INTO processed_events (handler, idempotency_key)
+        VALUES ($1, $2)
+        ON CONFLICT DO NOTHING
+        RETURNING idempotency_key;
+      `, [handler.name, idempotencyKey]);
+
+      if (claim.rows.length === 0) {
+        return null;
+      }
+
+      return { afterCommit: await handler.handle(client, event, metadata) };
+    }));
+
+    if (!outcome) {
+      this.logger.debug('Duplicate event skipped', { handler: handler.name, idempotencyKey });
+      return;
+    }
+
+    if (outcome.afterCommit) {
+      await outcome.afterCommit().catch((error) => {
+        this.logger.warn('Post-commit work for event failed', {
+          handler: handler.name,
+          idempotencyKey,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
+
+    this.logger.info('Event handled', {
+      handler: handler.name,
+      routingKey: metadata.routingKey,
+      idempotencyKey,
+      attempt: metadata.attempt
+    });
+  }
+
+  private queueName(handler: EventHandler): string {
+    return `${QUEUE_PREFIX}.${handler.name}`;
+  }
+
+  private track(dispatch: Promise<void>): Promise<void> {
+    this.inFlight.add(dispatch);
+    return dispatch.finally(() => this.inFlight.delete(dispatch));
+  }
+
+  private async runPurge(): Promise<void> {
+    try {
+      const purged = await this.purgeProcessed();
+      if (purged > 0) {
+        this.logger.info('Purged processed event keys', { purged });
+      }
+    } catch (error) {
+      this.logger.error('Processed event purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private getIdempotencyKey(event: unknown, metadata: MessageMetadata): string {
+    const fields = (event ?? {}) as { idempotency_key?: unknown; id?: unknown; event_id?: unknown };
+    const key = fields.idempotency_key || fields.id || fields.event_id || metadata.messageId;
+    if (key) {
+      return String(key);
+    }
+
+    // Fall back to a content hash so identical redeliveries still collapse
+    return createHash('sha256').update(JSON.stringify(event)).digest('hex');
+  }
+}
@@ -0,0 +1,60 @@
+// Event Outbox Service - records events in the caller's transaction
+
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { LoggerService } from './loggerService';
+import { DomainEvent, WorkItemEvent } from '../types';
+
+/**
+ * Events are written to `event_outbox` with the same client as the data
+ * change, so they commit or roll back together. OutboxRelayService publishes
+ * them to the broker after commit.
+ */
+export class EventOutboxService {
+  private logger: LoggerService;
+
+  constructor() {
+    this.logger = new LoggerService();
+  }
+
+  async enqueue(
+    client: PoolClient,
+    tenantId: string,
+    exchange: string,
+    routingKey: string,
+    payload: WorkItemEvent | DomainEvent
+  ): Promise<string> {
+    const id = uuidv4();
+
+    const query = `
+      INSERT INTO event_outbox (id, tenant_id, exchange, routing_key, payload)
+      VALUES ($1, $2, $3, $4, $5);
+    `;
+
+    await client.query(query, [id, tenantId, exchange, routingKey, payload]);
+
+    this.logger.debug('Event written to outbox', { id, exchange, routingKey });
+
+    return id;
+  }
+
+  async publishWorkItemEvent(client: PoolClient, event: WorkItemEvent): Promise<void> {
+    const routingKey = `work_item.${event.type}`;
+    await this.enqueue(client, event.tenant_id, 'work_items', routingKey, event);
+  }
+
+  async publishLineageEvent(client: PoolClient, event: DomainEvent): Promise<void> {
+    const routingKey = `lineage.${event.type}`;
+    await this.enqueue(client, event.tenant_id, 'lineage', routingKey, event);
+  }
+
+  async publishDependencyEvent(client: PoolClient, event: DomainEvent): Promise<void> {
+    const routingKey = `dependency.${event.type}`;
+    await this.enqueue(client, event.tenant_id, 'dependencies', routingKey, event);
+  }
+
+  async publishCommentEvent(client: PoolClient, event: DomainEvent): Promise<void> {
+    const routingKey = `comment.${event.type}`;
+    await this.enqueue(client, event.tenant_id, 'comments', routingKey, event);
+  }
+}
@@ -0,0 +1,130 @@
+// History Service for Work Item Audit Timelines
+
+import { DatabaseService } from './databaseService';
+import { WorkItemService } from './workItemService';
+import { LoggerService } from './loggerService';
+import {
+  HistoryQueryParams,
+  TimelineEntry,
+  TimelineEntryType,
+  User
+} from '../types';
+
+export class HistoryService {
+  private db: DatabaseService;
+  private workItemService: WorkItemService;
+  private logger: LoggerService;
+
+  constructor(db: DatabaseService, workItemService: WorkItemService) {
+    this.db = db;
+    this.workItemService = workItemService;
+    this.logger = new LoggerService();
+  }
+
+  /**
+   * Merge status changes, field edits, lineage changes and comments into a
+   * single timeline, newest first
+   */
+  async getHistory(
+    user: User,
+    workItemId: string,
+    params: HistoryQueryParams = {}
+  ): Promise<{ entries: TimelineEntry[]; total: number }> {
+    const workItem = await this.workItemService.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const types = params.types && params.types.length > 0
+      ? params.types
+      : Object.values(TimelineEntryType);
+
+    const invalidTypes = types.filter(type => !Object.values(TimelineEntryType).includes(type));
+    if (invalidTypes.length > 0) {
+      throw new Error(`INVALID_HISTORY_TYPE: ${invalidTypes.join(', ')}`);
+    }
+
+    const limit = params.limit || 50;
+    const offset = params.offset || 0;
+
+    const timelineQuery = `
+      SELECT 'status_change' as entry_type,
+             sh.id,
+             sh.changed_at as occurred_at,
+             sh.changed_by as actor_id,
+             jsonb_build_object(
+               'from_status', sh.from_status,
+               'to_status', sh.to_status,
+               'reason', sh.reason
+             ) as data
+      FROM status_history sh
+      WHERE sh.tenant_id = $1 AND sh.work_item_id = $2
+
+      UNION ALL
+
+      SELECT CASE wc.change_type WHEN 'lineage' THEN 'lineage_change' ELSE 'field_change' END,
+             wc.id,
+             wc.changed_at,
+             wc.changed_by,
+             wc.data
+      FROM work_item_changes wc
+      WHERE wc.tenant_id = $1 AND wc.work_item_id = $2
+
+      UNION ALL
+
+      SELECT 'lineage_change',
+             le.id,
+             le.created_at,
+             le.created_by,
+             jsonb_build_object(
+               'action', 'edge_created',
+               'relation_type', le.relation_type,
+               'parent_id', le.parent_id,
+               'child_id', le.child_id
+             )
+      FROM lineage_edges le
+      WHERE le.tenant_id = $1 AND (le.parent_id = $2 OR le.child_id = $2)
+
+      UNION ALL
+
+      SELECT 'comment',
+             c.id,
+             c.created_at,
+             c.author_id,
+             jsonb_build_object(
+               'body', c.body,
+               'mentions', c.mentions,
+               'edited_at', CASE WHEN c.updated_at > c.created_at THEN c.updated_at END
+             )
+      FROM comments c
+      WHERE c.tenant_id = $1 AND c.work_item_id = $2
+    `;
+
+    const query = `
+      SELECT * FROM (${timelineQuery}) timeline
+      WHERE timeline.entry_type = ANY($3)
+      ORDER BY timeline.occurred_at DESC, timeline.id
+      LIMIT $4 OFFSET $5;
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as total_count FROM (${timelineQuery}) timeline
+      WHERE timeline.entry_type = ANY($3);
+    `;
+
+    const result = await this.db.query<TimelineEntry>(query, [user.tenant_id, workItemId, types, limit, offset]);
+    const countResult = await this.db.query<{ total_count: string }>(countQuery, [user.tenant_id, workItemId, types]);
+
+    const entries: TimelineEntry[] = result.rows;
+    const total = parseInt(countResult.rows[0].total_count);
+
+    this.logger.debug('Work item history retrieved', {
+      workItemId,
+      entries: entries.length,
+      total,
+      userId: user.id
+    });
+
+    return { entries, total };
+  }
+}
@@ -0,0 +1,149 @@
+import { applyJsonPatch, applyMergePatch, parseJsonPointer } from './jsonPatch';
+import { JsonObject } from '../types';
+
+describe('parseJsonPointer', () => {
+  it('treats the empty pointer as the whole document', () => {
+    expect(parseJsonPointer('')).toEqual([]);
+  });
+
+  it('unescapes ~1 to / and ~0 to ~, in that order', () => {
+    expect(parseJsonPointer('/a~1b/c~0d/~01')).toEqual(['a/b', 'c~d', '~1']);
+  });
+
+  it('keeps empty reference tokens', () => {
+    expect(parseJsonPointer('/metadata/')).toEqual(['metadata', '']);
+  });
+
+  it('rejects pointers that do not start with /', () => {
+    expect(() => parseJsonPointer('metadata')).toThrow('INVALID_PATCH: metadata is not a JSON pointer');
+  });
+
+  it('rejects prototype keys', () => {
+    expect(() => parseJsonPointer('/metadata/__proto__')).toThrow('INVALID_PATCH: __proto__ cannot be used');
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = (): JsonObject => ({
+    title: 'Plan',
+    metadata: { tags: ['a', 'b'], 'a/b': 1, nested: { k: 1 } }
+  });
+
+  it('adds, replaces and removes members', () => {
+    const result = applyJsonPatch(document(), [
+      { op: 'add', path: '/metadata/team', value: 'core' },
+      { op: 'replace', path: '/title', value: 'Roadmap' },
+      { op: 'remove', path: '/metadata/a~1b' }
+    ]);
+
+    expect(result).toEqual({ title: 'Roadmap', metadata: { tags: ['a', 'b'], nested: { k: 1 }, team: 'core' } });
+  });
+
+  it('appends with - and inserts at an index', () => {
+    const result = applyJsonPatch(document(), [
+      { op: 'add', path: '/metadata/tags/-', value: 'c' },
+      { op: 'add', path: '/metadata/tags/0', value: 'z' },
+      { op: 'remove', path: '/metadata/tags/1' }
+    ]);
+
+    expect((result as JsonObject).metadata).toMatchObject({ tags: ['z', 'b', 'c'] });
+  });
+
+  it.each([
+    ['add past the end', { op: 'add' as const, path: '/metadata/tags/3', value: 'x' }, 'Array index 3 is out of bounds'],
+    ['add at a non-numeric index', { op: 'add' as const, path: '/metadata/tags/01', value: 'x' }, 'Array index 01 is out of bounds'],
+    ['remove past the end', { op: 'remove' as const, path: '/metadata/tags/2' }, 'Path /metadata/tags/2 does not exist'],
+    ['remove with -', { op: 'remove' as const, path: '/metadata/tags/-' }, 'Path /metadata/tags/- does not exist'],
+    ['replace a missing member', { op: 'replace' as const, path: '/metadata/missing', value: 1 }, 'Path /metadata/missing does not exist']
+  ])('rejects %s', (_, operation, message) => {
+    expect(() => applyJsonPatch(document(), [operation])).toThrow(`INVALID_PATCH: ${message}`);
+  });
+
+  it('moves and copies values', () => {
+    const result = applyJsonPatch(document(), [
+      { op: 'move', from: '/metadata/nested/k', path: '/metadata/k' },
+      { op: 'copy', from: '/metadata/tags', path: '/metadata/labels' }
+    ]);
+
+    expect((result as JsonObject).metadata).toEqual({
+      tags: ['a', 'b'],
+      labels: ['a', 'b'],
+      'a/b': 1,
+      nested: {},
+      k: 1
+    });
+  });
+
+  it('refuses to move a value into one of its own children', () => {
+    expect(() => applyJsonPatch(document(), [{ op: 'move', from: '/metadata', path: '/metadata/inner' }]))
+      .toThrow('INVALID_PATCH: A value cannot be moved into one of its own children (operation 0: move /metadata/inner)');
+  });
+
+  it('passes a test that matches', () => {
+    expect(() => applyJsonPatch(document(), [
+      { op: 'test', path: '/metadata/nested', value: { k: 1 } },
+      { op: 'test', path: '/metadata/tags', value: ['a', 'b'] }
+    ])).not.toThrow();
+  });
+
+  it('fails a test that does not match with PATCH_TEST_FAILED', () => {
+    expect(() => applyJsonPatch(document(), [
+      { op: 'replace', path: '/title', value: 'Roadmap' },
+      { op: 'test', path: '/metadata/tags', value: ['b', 'a'] }
+    ])).toThrow('PATCH_TEST_FAILED: Value at /metadata/tags does not match (operation 1: test /metadata/tags)');
+  });
+
+  it('is atomic: a failing operation leaves the input untouched', () => {
+    const input = document();
+
+    expect(() => applyJsonPatch(input, [
+      { op: 'add', path: '/metadata/team', value: 'core' },
+      { op: 'remove', path: '/metadata/missing' }
+    ])).toThrow();
+    expect(input).toEqual(document());
+  });
+
+  it('does not share values with the patch', () => {
+    const value = { owner: 'a' };
+    const result = applyJsonPatch(document(), [{ op: 'add', path: '/metadata/review', value }]) as JsonObject;
+
+    value.owner = 'b';
+    expect((result.metadata as JsonObject).review).toEqual({ owner: 'a' });
+  });
+});
+
+describe('applyMergePatch', () => {
+  it('merges objects recursively and removes members set to null', () => {
+    const result = applyMergePatch(
+      { title: 'Plan', description: 'Old', metadata: { team: 'core', budget: { q1: 1, q2: 2 } } },
+      { description: null, metadata: { budget: { q2: null, q3: 3 }, region: 'emea' } }
+    );
+
+    expect(result).toEqual({ title: 'Plan', metadata: { team: 'core', budget: { q1: 1, q3: 3 }, region: 'emea' } });
+  });
+
+  it('replaces arrays and scalars wholesale', () => {
+    expect(applyMergePatch({ tags: ['a', 'b'], n: 1 }, { tags: ['c'], n: { nested: true } }))
+      .toEqual({ tags: ['c'], n: { nested: true } });
+  });
+
+  it('replaces the target when the patch is not an object', () => {
+    expect(applyMergePatch({ a: 1 }, ['x'])).toEqual(['x']);
+  });
+
+  it('ignores null for members that do not exist', () => {
+    expect(applyMergePatch({ a: 1 }, { b: null })).toEqual({ a: 1 });
+  });
+
+  it('does not modify the target', () => {
+    const target = { metadata: { team: 'core' } };
+
+    applyMergePatch(target, { metadata: { team: null } });
+    expect(target).toEqual({ metadata: { team: 'core' } });
+  });
+
+  it('rejects prototype keys', () => {
+    expect(() => applyMergePatch({}, JSON.parse('{"__proto__": {"polluted": true}}')))
+      .toThrow('INVALID_PATCH: __proto__ cannot be used as a member name');
+  });
+});
@@ -0,0 +1,194 @@
+// JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396) helpers
+
+import { JsonObject, JsonPatchOperation, JsonValue } from '../types';
+
+const ARRAY_INDEX = /^(0|[1-9][0-9]*)$/;
+
+// Keys that would reach Object.prototype when assigned on a plain object
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Split a JSON pointer into unescaped reference tokens; '' is the whole document.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`INVALID_PATCH: ${pointer} is not a JSON pointer`);
+  }
+
+  return pointer.slice(1).split('/').map(token => {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    assertSafeKey(key);
+    return key;
+  });
+}
+
+/**
+ * Apply operations in order to a copy of the document. Patches are atomic:
+ * if any operation fails nothing is applied and the input is untouched.
+ */
+export function applyJsonPatch(document: JsonValue, operations: JsonPatchOperation[]): JsonValue {
+  let result = clone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${message} (operation ${index}: ${operation.op} ${operation.path})`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Merge `patch` into `target`: objects merge recursively, null removes a
+ * member and any other value replaces it.
+ */
+export function applyMergePatch(target: JsonValue | undefined, patch: JsonValue): JsonValue {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    assertSafeKey(key);
+
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+function applyOperation(document: JsonValue, operation: JsonPatchOperation): JsonValue {
+  const path = parseJsonPointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, path, clone(operation.value));
+
+    case 'remove':
+      return removeValue(document, path);
+
+    case 'replace':
+      getValue(document, path);
+      return path.length === 0 ? clone(operation.value) : addValue(removeValue(document, path), path, clone(operation.value));
+
+    case 'move': {
+      const from = parseJsonPointer(operation.from);
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('INVALID_PATCH: A value cannot be moved into one of its own children');
+      }
+      const value = getValue(document, from);
+      return addValue(removeValue(document, from), path, value);
+    }
+
+    case 'copy':
+      return addValue(document, path, clone(getValue(document, parseJsonPointer(operation.from))));
+
+    case 'test':
+      if (!deepEqual(getValue(document, path), operation.value)) {
+        throw new Error(`PATCH_TEST_FAILED: Value at ${operation.path || '/'} does not match`);
+      }
+      return document;
+
+    default: {
+      const unsupported: never = operation;
+      throw new Error(`INVALID_PATCH: Unsupported operation ${(unsupported as { op: unknown }).op}`);
+    }
+  }
+}
+
+function getValue(document: JsonValue, path: string[]): JsonValue {
+  let current = document;
+
+  for (const token of path) {
+    if (Array.isArray(current) && ARRAY_INDEX.test(token) && Number(token) < current.length) {
+      current = current[Number(token)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`INVALID_PATCH: Path /${path.join('/')} does not exist`);
+    }
+  }
+
+  return current;
+}
+
+function addValue(document: JsonValue, path: string[], value: JsonValue): JsonValue {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const parent = getValue(document, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : ARRAY_INDEX.test(key) ? Number(key) : -1;
+    if (index < 0 || index > parent.length) {
+      throw new Error(`INVALID_PATCH: Array index ${key} is out of bounds`);
+    }
+    parent.splice(index, 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`INVALID_PATCH: Parent of /${path.join('/')} is not a container`);
+  }
+
+  return document;
+}
+
+function removeValue(document: JsonValue, path: string[]): JsonValue {
+  if (path.length === 0) {
+    throw new Error('INVALID_PATCH: The whole document cannot be removed');
+  }
+
+  getValue(document, path);
+  const parent = getValue(document, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else if (isObject(parent)) {
+    delete parent[key];
+  }
+
+  return document;
+}
+
+function assertSafeKey(key: string): void {
+  if (FORBIDDEN_KEYS.includes(key)) {
+    throw new Error(`INVALID_PATCH: ${key} cannot be used as a member name`);
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function clone<T extends JsonValue>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function deepEqual(a: JsonValue, b: JsonValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+
+  return a === b;
+}
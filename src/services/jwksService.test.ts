@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JwksKeyStore } from './jwksService';
+import { LoggerService } from './loggerService';
+
+jest.mock('./loggerService');
+
+function publicJwk(kid: string): crypto.JsonWebKey {
+  const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' };
+}
+
+describe('JwksKeyStore', () => {
+  let directory: string;
+  let source: string;
+  let store: JwksKeyStore;
+  let now: number;
+
+  const writeKeys = (...kids: string[]) => {
+    fs.writeFileSync(source, JSON.stringify({ keys: kids.map(publicJwk) }));
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jwks-'));
+    source = path.join(directory, 'jwks.json');
+    now = Date.parse('2026-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new JwksKeyStore({ source, cacheTtlMs: 60_000, minRefreshIntervalMs: 10_000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('picks up a rotated key named by an unknown kid', async () => {
+    writeKeys('key-1');
+    await store.getKey('key-1');
+
+    writeKeys('key-1', 'key-2');
+    now += 10_001;
+
+    await expect(store.getKey('key-2')).resolves.toBeDefined();
+  });
+
+  it('throttles refreshes for unknown kids', async () => {
+    writeKeys('key-1');
+    await store.getKey('key-1');
+
+    writeKeys('key-1', 'key-2');
+    now += 5_000;
+
+    await expect(store.getKey('key-2')).rejects.toThrow('No signing key found for kid key-2');
+  });
+
+  it('keeps serving cached keys when a refresh fails after the TTL', async () => {
+    writeKeys('key-1');
+    await store.getKey('key-1');
+
+    fs.writeFileSync(source, 'not json');
+    now += 60_001;
+
+    await expect(store.getKey('key-1')).resolves.toBeDefined();
+    const logger = jest.mocked(LoggerService).mock.instances.at(-1)!;
+    expect(logger.error).toHaveBeenCalledWith(
+      'JWKS refresh failed, keeping cached signing keys',
+      expect.objectContaining({ kids: ['key-1'] })
+    );
+  });
+
+  it('backs off before retrying a failed refresh', async () => {
+    writeKeys('key-1');
+    await store.getKey('key-1');
+
+    const readFile = jest.spyOn(fs.promises, 'readFile').mockRejectedValue(new Error('ECONNRESET'));
+    now += 60_001;
+
+    await store.getKey('key-1');
+    await store.getKey('key-1');
+    expect(readFile).toHaveBeenCalledTimes(1);
+
+    now += 10_001;
+    await store.getKey('key-1');
+    expect(readFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the first load fails and there are no cached keys', async () => {
+    await expect(store.getKey('key-1')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,133 @@
+// JWKS Key Store for asymmetric JWT verification
+
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import axios from 'axios';
+import { LoggerService } from './loggerService';
+
+interface JsonWebKey {
+  kid?: string;
+  kty: string;
+  use?: string;
+  alg?: string;
+  [parameter: string]: unknown;
+}
+
+export interface JwksOptions {
+  // https:// URL of the identity provider's JWKS, or a local file path
+  source: string;
+  cacheTtlMs?: number;
+  minRefreshIntervalMs?: number;
+}
+
+/**
+ * Signing keys from a JWKS document, indexed by `kid`. Keys are refreshed
+ * when the cache expires, and also when a token names an unknown `kid` so a
+ * rotated key is picked up straight away. Refresh attempts are throttled by
+ * minRefreshIntervalMs, and a failed refresh keeps the cached keys in use so
+ * an identity provider outage does not reject every token.
+ */
+export class JwksKeyStore {
+  private source: string;
+  private cacheTtlMs: number;
+  private minRefreshIntervalMs: number;
+  private logger: LoggerService;
+  private keys = new Map<string, KeyObject>();
+  private loadedAt = 0;
+  private attemptedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(options: JwksOptions) {
+    this.source = options.source;
+    this.cacheTtlMs = options.cacheTtlMs || parseInt(process.env.JWKS_CACHE_TTL_MS || String(10 * 60 * 1000));
+    this.minRefreshIntervalMs = options.minRefreshIntervalMs || parseInt(process.env.JWKS_MIN_REFRESH_INTERVAL_MS || '30000');
+    this.logger = new LoggerService();
+  }
+
+  async getKey(kid?: string): Promise<KeyObject> {
+    if (Date.now() - this.loadedAt > this.cacheTtlMs && this.canRefresh()) {
+      await this.refresh();
+    }
+
+    let key = this.findKey(kid);
+    if (!key && this.canRefresh()) {
+      await this.refresh();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new Error(kid ? `No signing key found for kid ${kid}` : 'Token has no kid and the JWKS holds several keys');
+    }
+
+    return key;
+  }
+
+  private findKey(kid?: string): KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+
+    // Tokens without a kid are only accepted against a single-key set
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private canRefresh(): boolean {
+    return Date.now() - this.attemptedAt > this.minRefreshIntervalMs;
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.attemptedAt = Date.now();
+      this.refreshing = this.load()
+        .catch((error) => {
+          // Without any keys there is nothing to fall back on
+          if (this.keys.size === 0) {
+            throw error;
+          }
+
+          this.logger.error('JWKS refresh failed, keeping cached signing keys', {
+            source: this.source,
+            kids: Array.from(this.keys.keys()),
+            retryInMs: this.minRefreshIntervalMs,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  private async load(): Promise<void> {
+    const document = /^https?:\/\//.test(this.source)
+      ? (await axios.get(this.source, { timeout: 5000 })).data
+      : JSON.parse(await fs.promises.readFile(this.source, 'utf8'));
+
+    if (!document || !Array.isArray(document.keys)) {
+      throw new Error('JWKS document has no keys array');
+    }
+
+    const keys = new Map<string, KeyObject>();
+
+    document.keys.forEach((jwk: JsonWebKey, index: number) => {
+      if ((jwk.use && jwk.use !== 'sig') || !['RSA', 'EC'].includes(jwk.kty)) {
+        return;
+      }
+
+      try {
+        keys.set(jwk.kid || `key-${index}`, crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }));
+      } catch (error) {
+        this.logger.warn('Skipping unusable JWKS key', {
+          kid: jwk.kid,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    this.keys = keys;
+    this.loadedAt = Date.now();
+
+    this.logger.info('JWKS signing keys loaded', { source: this.source, kids: Array.from(keys.keys()) });
+  }
+}
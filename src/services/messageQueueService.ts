@@ -1,41 +1,83 @@
-// Message Queue Service for Event Publishing - Simplified
+// Message Queue Service for Event Publishing over RabbitMQ
 
-import { MessageQueueConnection, WorkItemEvent } from '../types';
+import amqp, { ChannelModel, ConfirmChannel } from 'amqplib';
+import {
+  MessageHandler,
+  MessageQueueConnection,
+  PublishOptions,
+  SubscribeOptions
+} from '../types';
 import { LoggerService } from './loggerService';
 
+// Topic exchanges owned by this service
+export const EVENT_EXCHANGES = ['work_items', 'lineage', 'dependencies', 'comments'];
+
 export class MessageQueueService implements MessageQueueConnection {
   private logger: LoggerService;
-  private isConnected = false;
+  private url: string;
+  private connection: ChannelModel | null = null;
+  private channel: ConfirmChannel | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private closing = false;
+  private subscriptions: { queue: string; callback: MessageHandler; options: SubscribeOptions }[] = [];
+  private consumerTags = new Map<string, string>();
 
   constructor() {
     this.logger = new LoggerService();
+    this.url = process.env.RABBITMQ_URL || 'amqp://localhost:5672';
+  }
+
+  get isConnected(): boolean {
+    return this.channel !== null;
   }
 
   async connect(): Promise<void> {
-    try {
-      // For testing, just simulate connection
-      this.isConnected = true;
-      this.logger.info('Message Queue Service connected (test mode)');
-    } catch (error) {
-      this.logger.error('Failed to connect to RabbitMQ', { 
-        error: error instanceof Error ? error.message : String(error) 
+    if (this.channel) {
+      return;
+    }
+
+    // Concurrent callers share a single connection attempt
+    if (!this.connecting) {
+      this.connecting = this.openChannel().finally(() => {
+        this.connecting = null;
       });
-      throw error;
     }
+
+    return this.connecting;
   }
 
-  async publish(exchange: string, routingKey: string, message: any): Promise<void> {
+  async publish(
+    exchange: string,
+    routingKey: string,
+    message: unknown,
+    options: PublishOptions = {}
+  ): Promise<void> {
     try {
-      if (!this.isConnected) {
+      if (!this.channel) {
         this.logger.warn('Publishing while disconnected, trying to reconnect...');
         await this.connect();
       }
 
-      // For testing, just log the message
-      this.logger.debug('Message published (test mode)', {
+      const channel = this.channel!;
+      const content = Buffer.from(JSON.stringify(message));
+
+      // Resolves once the broker confirms the message, rejects on nack
+      await new Promise<void>((resolve, reject) => {
+        channel.publish(exchange, routingKey, content, {
+          persistent: true,
+          contentType: 'application/json',
+          messageId: options.messageId,
+          timestamp: Math.floor(Date.now() / 1000),
+          headers: options.headers
+        }, (error) => error ? reject(error) : resolve());
+      });
+
+      this.logger.debug('Message published', {
         exchange,
         routingKey,
-        messageId: message.id || `msg_${Date.now()}`
+        messageId: options.messageId
       });
 
     } catch (error) {
@@ -48,14 +90,20 @@ export class MessageQueueService implements MessageQueueConnection {
     }
   }
 
-  async subscribe(queue: string, callback: (message: any) => void): Promise<void> {
+  async subscribe(
+    queue: string,
+    callback: MessageHandler,
+    options: SubscribeOptions = {}
+  ): Promise<void> {
     try {
-      if (!this.isConnected) {
+      if (!this.channel) {
         await this.connect();
       }
 
-      // For testing, just log subscription
-      this.logger.info('Subscribed to queue (test mode)', { queue });
+      await this.setupConsumer(queue, callback, options);
+      this.subscriptions.push({ queue, callback, options });
+
+      this.logger.info('Subscribed to queue', { queue, exchange: options.exchange, routingKeys: options.routingKeys });
 
     } catch (error) {
       this.logger.error('Failed to subscribe to queue', {
@@ -66,24 +114,299 @@ export class MessageQueueService implements MessageQueueConnection {
     }
   }
 
-  async publishWorkItemEvent(event: WorkItemEvent): Promise<void> {
-    const routingKey = `work_item.${event.type}`;
-    await this.publish('work_items', routingKey, event);
-  }
+  async unsubscribe(queue: string): Promise<void> {
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.queue !== queue);
+
+    const consumerTag = this.consumerTags.get(queue);
+    this.consumerTags.delete(queue);
 
-  async publishLineageEvent(event: any): Promise<void> {
-    const routingKey = `lineage.${event.type}`;
-    await this.publish('lineage', routingKey, event);
+    if (consumerTag && this.channel) {
+      await this.channel.cancel(consumerTag);
+      this.logger.info('Unsubscribed from queue', { queue });
+    }
   }
 
   async close(): Promise<void> {
+    this.closing = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     try {
-      this.isConnected = false;
+      await this.channel?.close();
+      await this.connection?.close();
       this.logger.info('Message Queue Service connection closed');
     } catch (error) {
-      this.logger.error('Error closing RabbitMQ connection', { 
-        error: error instanceof Error ? error.message : String(error) 
+      this.logger.error('Error closing RabbitMQ connection', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.channel = null;
+      this.connection = null;
+    }
+  }
+
+  private async openChannel(): Promise<void> {
+    try {
+      this.closing = false;
+      const connection = await amqp.connect(this.url);
+      const channel = await connection.createConfirmChannel();
+
+      for (const exchange of EVENT_EXCHANGES) {
+        await channel.assertExchange(exchange, 'topic', { durable: true });
+      }
+
+      connection.on('error', (error) => {
+        this.logger.error('RabbitMQ connection error', { error: error.message });
+      });
+
+      connection.on('close', () => {
+        this.channel = null;
+        this.connection = null;
+        if (!this.closing) {
+          this.logger.warn('RabbitMQ connection closed unexpectedly');
+          this.scheduleReconnect();
+        }
+      });
+
+      this.connection = connection;
+      this.channel = channel;
+      this.reconnectAttempts = 0;
+
+      // Consumers do not survive a lost connection, so re-establish them
+      for (const { queue, callback, options } of this.subscriptions) {
+        await this.setupConsumer(queue, callback, options);
+      }
+
+      this.logger.info('Message Queue Service connected', { exchanges: EVENT_EXCHANGES });
+    } catch (error) {
+      this.logger.error('Failed to connect to RabbitMQ', {
+        error: error instanceof Error ? error.message : String(error)
       });
+      throw error;
+    }
+  }
+
+  /**
+   * Declare the queue topology and start consuming. Failed messages are parked
+   * in `<queue>.retry`, whose TTL dead-letters them back to the main queue, and
+   * move to `<queue>.dead` once `maxRetries` is exhausted.
+   */
+  private async setupConsumer(
+    queue: string,
+    callback: MessageHandler,
+    options: SubscribeOptions
+  ): Promise<void> {
+    const channel = this.channel!;
+    const maxRetries = options.maxRetries ?? 3;
+    const retryQueue = `${queue}.retry`;
+    const deadLetterQueue = `${queue}.dead`;
+
+    await channel.assertQueue(queue, { durable: true });
+    await channel.assertQueue(retryQueue, {
+      durable: true,
+      messageTtl: options.retryDelayMs ?? 5000,
+      deadLetterExchange: '',
+      deadLetterRoutingKey: queue
+    });
+    await channel.assertQueue(deadLetterQueue, { durable: true });
+
+    if (options.exchange) {
+      await channel.assertExchange(options.exchange, 'topic', { durable: true });
+      for (const routingKey of options.routingKeys || ['#']) {
+        await channel.bindQueue(queue, options.exchange, routingKey);
+      }
+    }
+
+    await channel.prefetch(10);
+    const { consumerTag } = await channel.consume(queue, async (msg) => {
+      if (!msg) {
+        return;
+      }
+
+      const headers = msg.properties.headers || {};
+      const attempt = (headers['x-attempt'] || 0) + 1;
+      const routingKey = headers['x-original-routing-key'] || msg.fields.routingKey;
+
+      try {
+        await callback(JSON.parse(msg.content.toString()), {
+          messageId: msg.properties.messageId,
+          routingKey,
+          headers,
+          attempt
+        });
+        channel.ack(msg);
+
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const target = attempt > maxRetries ? deadLetterQueue : retryQueue;
+
+        try {
+          await new Promise<void>((resolve, reject) => {
+            channel.sendToQueue(target, msg.content, {
+              ...msg.properties,
+              headers: {
+                ...headers,
+                'x-attempt': attempt,
+                'x-original-routing-key': routingKey,
+                'x-last-error': errorMessage
+              }
+            }, (sendError) => sendError ? reject(sendError) : resolve());
+          });
+          channel.ack(msg);
+        } catch {
+          // Could not park the message; let the broker redeliver it
+          channel.nack(msg, false, true);
+        }
+
+        this.logger.warn(target === deadLetterQueue ? 'Message dead-lettered' : 'Message scheduled for retry', {
+          queue,
+          routingKey,
+          messageId: msg.properties.messageId,
+          attempt,
+          error: errorMessage
+        });
+      }
+    });
+
+    this.consumerTags.set(queue, consumerTag);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    // Exponential backoff capped at 30 seconds
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, 30000);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.connect();
+      } catch {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+}
+
+/**
+ * Broker stand-in that keeps published messages in memory. Used for local
+ * development (MESSAGE_QUEUE_DRIVER=memory) and for exercising the outbox relay.
+ */
+export class InMemoryMessageQueue implements MessageQueueConnection {
+  readonly published: { exchange: string; routingKey: string; message: unknown; options: PublishOptions }[] = [];
+  readonly deadLettered: { queue: string; routingKey: string; message: unknown; error: string }[] = [];
+  private subscriptions: { queue: string; callback: MessageHandler; options: SubscribeOptions }[] = [];
+  private failures = 0;
+
+  async connect(): Promise<void> {
+    return;
+  }
+
+  async publish(
+    exchange: string,
+    routingKey: string,
+    message: unknown,
+    options: PublishOptions = {}
+  ): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Simulated broker failure');
+    }
+
+    this.published.push({ exchange, routingKey, message, options });
+
+    for (const subscription of this.subscriptions) {
+      const { exchange: boundExchange, routingKeys = ['#'] } = subscription.options;
+      if (boundExchange === exchange && routingKeys.some(pattern => matchesTopic(pattern, routingKey))) {
+        await this.deliver(subscription, routingKey, message, options);
+      }
     }
   }
-}
\ No newline at end of file
+
+  async subscribe(
+    queue: string,
+    callback: MessageHandler,
+    options: SubscribeOptions = {}
+  ): Promise<void> {
+    this.subscriptions.push({ queue, callback, options });
+  }
+
+  async unsubscribe(queue: string): Promise<void> {
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.queue !== queue);
+  }
+
+  /**
+   * Make the next `count` publishes fail, as if the broker nacked them
+   */
+  failNext(count = 1): void {
+    this.failures += count;
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions = [];
+  }
+
+  // Retries happen immediately; there is no delay queue in memory
+  private async deliver(
+    subscription: { queue: string; callback: MessageHandler; options: SubscribeOptions },
+    routingKey: string,
+    message: unknown,
+    options: PublishOptions
+  ): Promise<void> {
+    const maxRetries = subscription.options.maxRetries ?? 3;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await subscription.callback(message, {
+          messageId: options.messageId,
+          routingKey,
+          headers: options.headers || {},
+          attempt
+        });
+        return;
+      } catch (error) {
+        if (attempt > maxRetries) {
+          this.deadLettered.push({
+            queue: subscription.queue,
+            routingKey,
+            message,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * AMQP topic matching: `*` matches one word, `#` matches zero or more
+ */
+function matchesTopic(pattern: string, routingKey: string): boolean {
+  const match = (patternWords: string[], keyWords: string[]): boolean => {
+    if (patternWords.length === 0) {
+      return keyWords.length === 0;
+    }
+
+    const [head, ...rest] = patternWords;
+    if (head === '#') {
+      return keyWords.some((_, index) => match(rest, keyWords.slice(index))) || match(rest, []);
+    }
+
+    return keyWords.length > 0 && (head === '*' || head === keyWords[0]) && match(rest, keyWords.slice(1));
+  };
+
+  return match(pattern.split('.'), routingKey.split('.'));
+}
+
+export function createMessageQueue(): MessageQueueConnection {
+  return process.env.MESSAGE_QUEUE_DRIVER === 'memory'
+    ? new InMemoryMessageQueue()
+    : new MessageQueueService();
+}
@@ -0,0 +1,170 @@
+import { PoolClient } from 'pg';
+import { MigrationService } from './migrationService';
+import { DatabaseService } from './databaseService';
+import { Migration } from '../types';
+
+jest.mock('./loggerService');
+
+/**
+ * Client that keeps schema_migrations and a list of "tables" in memory and
+ * honours BEGIN/COMMIT/ROLLBACK, which is all MigrationService relies on.
+ */
+class FakeClient {
+  applied = new Map<number, { name: string; applied_at: Date }>();
+  tables = new Set<string>();
+  statements: string[] = [];
+  private snapshot: { applied: Map<number, { name: string; applied_at: Date }>; tables: Set<string> } | null = null;
+
+  async query(text: string, params: unknown[] = []): Promise<{ rows: object[] }> {
+    const statement = text.trim();
+    this.statements.push(statement.split(/\s+/).slice(0, 3).join(' '));
+
+    if (statement === 'BEGIN') {
+      this.snapshot = { applied: new Map(this.applied), tables: new Set(this.tables) };
+    } else if (statement === 'COMMIT') {
+      this.snapshot = null;
+    } else if (statement === 'ROLLBACK') {
+      this.applied = this.snapshot!.applied;
+      this.tables = this.snapshot!.tables;
+      this.snapshot = null;
+    } else if (statement.includes('to_regclass')) {
+      return { rows: [{ exists: true }] };
+    } else if (statement.startsWith('SELECT version, name, applied_at')) {
+      return {
+        rows: Array.from(this.applied.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([version, row]) => ({ version, ...row }))
+      };
+    } else if (statement.startsWith('INSERT INTO schema_migrations')) {
+      this.applied.set(params[0] as number, { name: params[1] as string, applied_at: new Date() });
+    } else if (statement.startsWith('DELETE FROM schema_migrations')) {
+      this.applied.delete(params[0] as number);
+    }
+
+    return { rows: [] };
+  }
+}
+
+function tableMigration(version: number, table: string, options: { failUp?: boolean } = {}): Migration {
+  return {
+    version,
+    name: `create_${table}`,
+    async up(client: PoolClient) {
+      (client as unknown as FakeClient).tables.add(table);
+      if (options.failUp) {
+        throw new Error(`Cannot create ${table}`);
+      }
+    },
+    async down(client: PoolClient) {
+      (client as unknown as FakeClient).tables.delete(table);
+    }
+  };
+}
+
+describe('MigrationService', () => {
+  let client: FakeClient;
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    client = new FakeClient();
+    db = { withClient: (callback: (client: FakeClient) => Promise<unknown>) => callback(client) } as unknown as DatabaseService;
+  });
+
+  const service = (migrations: Migration[]) => new MigrationService(db, migrations);
+
+  it('applies pending migrations in version order, each in its own transaction', async () => {
+    const statuses = await service([tableMigration(2, 'b'), tableMigration(1, 'a')]).up();
+
+    expect(statuses.map(({ version, applied }) => ({ version, applied }))).toEqual([
+      { version: 1, applied: true },
+      { version: 2, applied: true }
+    ]);
+    expect(client.tables).toEqual(new Set(['a', 'b']));
+    expect(client.statements.filter(statement => ['BEGIN', 'COMMIT'].includes(statement))).toEqual([
+      'BEGIN', 'COMMIT', 'BEGIN', 'COMMIT'
+    ]);
+    expect(client.statements[0]).toMatch(/pg_advisory_lock/);
+    expect(client.statements[client.statements.length - 1]).toMatch(/pg_advisory_unlock/);
+  });
+
+  it('stops at the target version', async () => {
+    await service([tableMigration(1, 'a'), tableMigration(2, 'b'), tableMigration(3, 'c')]).up(2);
+
+    expect(Array.from(client.applied.keys())).toEqual([1, 2]);
+    expect(client.tables.has('c')).toBe(false);
+  });
+
+  it('round-trips: reverting everything and reapplying ends where it started', async () => {
+    const migrations = service([tableMigration(1, 'a'), tableMigration(2, 'b'), tableMigration(3, 'c')]);
+
+    await migrations.up();
+    await migrations.down({ steps: 1 });
+    expect(Array.from(client.applied.keys())).toEqual([1, 2]);
+    expect(client.tables).toEqual(new Set(['a', 'b']));
+
+    await migrations.down({ target: 0 });
+    expect(client.applied.size).toBe(0);
+    expect(client.tables.size).toBe(0);
+
+    await migrations.up();
+    expect(Array.from(client.applied.keys())).toEqual([1, 2, 3]);
+    expect(client.tables).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  it('reverts newest first down to the target', async () => {
+    const reverted: number[] = [];
+    const migrations = [1, 2, 3].map(version => ({
+      ...tableMigration(version, `t${version}`),
+      async down() {
+        reverted.push(version);
+      }
+    }));
+
+    await service(migrations).up();
+    await service(migrations).down({ target: 1 });
+
+    expect(reverted).toEqual([3, 2]);
+    expect(Array.from(client.applied.keys())).toEqual([1]);
+  });
+
+  it('rolls back a failing migration and keeps earlier ones applied', async () => {
+    const migrations = service([tableMigration(1, 'a'), tableMigration(2, 'b', { failUp: true }), tableMigration(3, 'c')]);
+
+    await expect(migrations.up()).rejects.toThrow('Cannot create b');
+
+    expect(Array.from(client.applied.keys())).toEqual([1]);
+    expect(client.tables).toEqual(new Set(['a']));
+    expect(client.statements).toContain('ROLLBACK');
+    expect(client.statements[client.statements.length - 1]).toMatch(/pg_advisory_unlock/);
+  });
+
+  it('refuses to revert a migration this build does not know', async () => {
+    client.applied.set(9, { name: 'from_the_future', applied_at: new Date() });
+
+    await expect(service([tableMigration(1, 'a')]).down()).rejects.toThrow('Cannot revert migration 9');
+  });
+
+  it('reports unknown applied versions in status', async () => {
+    client.applied.set(9, { name: 'from_the_future', applied_at: new Date() });
+
+    const statuses = await service([tableMigration(1, 'a')]).status();
+
+    expect(statuses.map(({ version, applied, unknown }) => ({ version, applied, unknown }))).toEqual([
+      { version: 1, applied: false, unknown: undefined },
+      { version: 9, applied: true, unknown: true }
+    ]);
+  });
+
+  it('asserts the schema is up to date', async () => {
+    const migrations = service([tableMigration(1, 'a'), tableMigration(2, 'b')]);
+
+    await expect(migrations.assertUpToDate()).rejects.toThrow('pending migrations: 1_create_a, 2_create_b');
+
+    await migrations.up();
+    await expect(migrations.assertUpToDate()).resolves.toBeUndefined();
+  });
+
+  it('rejects duplicate versions', () => {
+    expect(() => service([tableMigration(1, 'a'), tableMigration(1, 'b')])).toThrow('Duplicate migration version 1');
+  });
+});
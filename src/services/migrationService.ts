@@ -0,0 +1,175 @@
+// Migration Service - applies and reverts versioned schema migrations
+
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { LoggerService } from './loggerService';
+import { migrations as registeredMigrations } from '../migrations';
+import { Migration, MigrationStatus } from '../types';
+
+// Session advisory lock held while migrating so replicas never migrate concurrently
+const MIGRATION_LOCK_KEY = 727_100_022;
+
+export class MigrationService {
+  private db: DatabaseService;
+  private migrations: Migration[];
+  private logger: LoggerService;
+
+  constructor(db: DatabaseService, migrations: Migration[] = registeredMigrations) {
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.logger = new LoggerService();
+
+    this.migrations.forEach((migration, index) => {
+      if (index > 0 && migration.version === this.migrations[index - 1].version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    });
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    return this.db.withClient(async (client) => this.describe(await this.getApplied(client)));
+  }
+
+  /**
+   * Apply pending migrations in order, up to and including `target` when
+   * given. Each migration commits in its own transaction together with its
+   * schema_migrations row, so a failure leaves earlier ones applied.
+   */
+  async up(target?: number): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+      const pending = this.migrations.filter(migration =>
+        !applied.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      for (const migration of pending) {
+        await this.run(client, migration, 'up');
+      }
+
+      return this.describe(await this.getApplied(client));
+    });
+  }
+
+  /**
+   * Revert the most recently applied migrations, `steps` at a time, or every
+   * migration above `target` when given.
+   */
+  async down(options: { steps?: number; target?: number } = {}): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+      const versions = Array.from(applied.keys()).sort((a, b) => b - a);
+
+      const toRevert = options.target !== undefined
+        ? versions.filter(version => version > options.target!)
+        : versions.slice(0, options.steps ?? 1);
+
+      for (const version of toRevert) {
+        const migration = this.migrations.find(candidate => candidate.version === version);
+        if (!migration) {
+          throw new Error(`Cannot revert migration ${version}: it is not known to this build`);
+        }
+        await this.run(client, migration, 'down');
+      }
+
+      return this.describe(await this.getApplied(client));
+    });
+  }
+
+  /**
+   * Throw unless every known migration has been applied. Used at startup so
+   * the service never runs against a schema older than its code expects.
+   */
+  async assertUpToDate(): Promise<void> {
+    const pending = (await this.status()).filter(migration => !migration.applied);
+
+    if (pending.length > 0) {
+      const names = pending.map(migration => `${migration.version}_${migration.name}`).join(', ');
+      throw new Error(`Database schema is not up to date; pending migrations: ${names}. Run \`npm run migrate up\``);
+    }
+  }
+
+  private async run(client: PoolClient, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    const start = Date.now();
+
+    try {
+      await client.query('BEGIN');
+      // Data changes in migrations must see every tenant's rows
+      await client.query(`SELECT set_config('app.bypass_rls', 'on', true);`);
+      await migration[direction](client);
+
+      if (direction === 'up') {
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2);',
+          [migration.version, migration.name]
+        );
+      } else {
+        await client.query('DELETE FROM schema_migrations WHERE version = $1;', [migration.version]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error('Migration failed', {
+        version: migration.version,
+        name: migration.name,
+        direction,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    this.logger.info(direction === 'up' ? 'Migration applied' : 'Migration reverted', {
+      version: migration.version,
+      name: migration.name,
+      duration: Date.now() - start
+    });
+  }
+
+  private async withLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.db.withClient(async (client) => {
+      await client.query('SELECT pg_advisory_lock($1);', [MIGRATION_LOCK_KEY]);
+
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name VARCHAR(255) NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+          );
+        `);
+
+        return await callback(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1);', [MIGRATION_LOCK_KEY]);
+      }
+    });
+  }
+
+  private async getApplied(client: PoolClient): Promise<Map<number, { name: string; applied_at: Date }>> {
+    // status() must not create the table, so check for it first
+    const exists = await client.query<{ exists: boolean }>(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists;`);
+    if (!exists.rows[0].exists) {
+      return new Map();
+    }
+
+    const result = await client.query<{ version: number; name: string; applied_at: Date }>(
+      'SELECT version, name, applied_at FROM schema_migrations ORDER BY version;'
+    );
+    return new Map(result.rows.map(row => [row.version, { name: row.name, applied_at: row.applied_at }]));
+  }
+
+  private describe(applied: Map<number, { name: string; applied_at: Date }>): MigrationStatus[] {
+    const known: MigrationStatus[] = this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      ...(applied.has(migration.version) && { applied_at: applied.get(migration.version)!.applied_at })
+    }));
+
+    const unknown: MigrationStatus[] = Array.from(applied.entries())
+      .filter(([version]) => !this.migrations.some(migration => migration.version === version))
+      .map(([version, row]) => ({ version, name: row.name, applied: true, applied_at: row.applied_at, unknown: true }));
+
+    return [...known, ...unknown].sort((a, b) => a.version - b.version);
+  }
+}
@@ -0,0 +1,164 @@
+import { OutboxRelayService } from './outboxRelayService';
+import { InMemoryMessageQueue } from './messageQueueService';
+import { DatabaseConnection, OutboxEvent } from '../types';
+
+jest.mock('./loggerService');
+
+/**
+ * Just enough of event_outbox for the relay's queries
+ */
+class FakeOutboxDatabase {
+  rows: OutboxEvent[] = [];
+
+  add(id: string, overrides: Partial<OutboxEvent> = {}): OutboxEvent {
+    const event: OutboxEvent = {
+      id,
+      tenant_id: 'tenant-1',
+      exchange: 'work-items',
+      routing_key: `work_item.${id}`,
+      payload: { id },
+      attempts: 0,
+      created_at: new Date(Date.now() - 60_000 + this.rows.length),
+      next_attempt_at: new Date(0),
+      ...overrides
+    };
+    this.rows.push(event);
+    return event;
+  }
+
+  async query(text: string, params: unknown[] = []): Promise<{ rows?: object[]; rowCount?: number }> {
+    if (text.includes('FOR UPDATE SKIP LOCKED')) {
+      const pending = this.rows
+        .filter(row => !row.published_at)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+        .slice(0, params[0] as number);
+      return { rows: pending.map(row => ({ ...row, due: row.next_attempt_at.getTime() <= Date.now() })) };
+    }
+
+    if (text.includes('SET published_at = NOW()')) {
+      this.find(params[0] as string).published_at = new Date();
+      return { rowCount: 1 };
+    }
+
+    if (text.includes('SET attempts')) {
+      const row = this.find(params[0] as string);
+      row.attempts = params[1] as number;
+      row.last_error = params[2] as string;
+      row.next_attempt_at = new Date(Date.now() + (params[3] as number));
+      return { rowCount: 1 };
+    }
+
+    if (text.includes('DELETE FROM event_outbox')) {
+      const cutoff = Date.now() - (params[0] as number) * 60 * 60 * 1000;
+      const before = this.rows.length;
+      this.rows = this.rows.filter(row => !row.published_at || row.published_at.getTime() >= cutoff);
+      return { rowCount: before - this.rows.length };
+    }
+
+    throw new Error(`Unexpected query: ${text}`);
+  }
+
+  async transaction<T>(callback: (client: FakeOutboxDatabase) => Promise<T>): Promise<T> {
+    return callback(this);
+  }
+
+  find(id: string): OutboxEvent {
+    return this.rows.find(row => row.id === id)!;
+  }
+}
+
+describe('OutboxRelayService', () => {
+  let db: FakeOutboxDatabase;
+  let broker: InMemoryMessageQueue;
+  let relay: OutboxRelayService;
+
+  beforeEach(() => {
+    db = new FakeOutboxDatabase();
+    broker = new InMemoryMessageQueue();
+    relay = new OutboxRelayService(db as unknown as DatabaseConnection, broker, { batchSize: 10, maxBackoffMs: 30_000, retentionHours: 1 });
+  });
+
+  it('publishes due events in creation order with their id and tenant', async () => {
+    db.add('a');
+    db.add('b');
+    db.add('c');
+
+    await expect(relay.relayBatch()).resolves.toBe(3);
+
+    expect(broker.published.map(message => message.routingKey)).toEqual(['work_item.a', 'work_item.b', 'work_item.c']);
+    expect(broker.published[0].options).toEqual({ messageId: 'a', headers: { tenant_id: 'tenant-1' } });
+    expect(db.rows.every(row => row.published_at)).toBe(true);
+  });
+
+  it('stops at the first failure so later events are not delivered ahead of it', async () => {
+    db.add('a');
+    db.add('b');
+    db.add('c');
+    broker.failNext();
+
+    await expect(relay.relayBatch()).resolves.toBe(0);
+
+    expect(broker.published).toHaveLength(0);
+    expect(db.find('a').published_at).toBeUndefined();
+    expect(db.find('b').published_at).toBeUndefined();
+    expect(db.find('c').published_at).toBeUndefined();
+  });
+
+  it('holds back later events while a failed one waits out its backoff', async () => {
+    db.add('a');
+    db.add('b');
+    db.add('c');
+
+    // 'a' goes out, then 'b' fails and must not be overtaken by 'c'
+    await new OutboxRelayService(db as unknown as DatabaseConnection, broker, { batchSize: 1 }).relayBatch();
+    broker.failNext();
+
+    await expect(relay.relayBatch()).resolves.toBe(0);
+    await expect(relay.relayBatch()).resolves.toBe(0);
+    expect(broker.published.map(message => message.routingKey)).toEqual(['work_item.a']);
+    expect(db.find('b').attempts).toBe(1);
+
+    db.find('b').next_attempt_at = new Date(0);
+    await expect(relay.relayBatch()).resolves.toBe(2);
+    expect(broker.published.map(message => message.routingKey)).toEqual(['work_item.a', 'work_item.b', 'work_item.c']);
+  });
+
+  it('records attempts, the error and an exponential backoff capped at maxBackoffMs', async () => {
+    const event = db.add('a');
+
+    for (const expectedBackoff of [2_000, 4_000, 8_000, 16_000, 30_000, 30_000]) {
+      broker.failNext();
+      const before = Date.now();
+
+      await relay.relayBatch();
+
+      const delay = event.next_attempt_at.getTime() - before;
+      expect(delay).toBeGreaterThanOrEqual(expectedBackoff);
+      expect(delay).toBeLessThan(expectedBackoff + 1_000);
+      expect(event.last_error).toBe('Simulated broker failure');
+
+      // Make it due again for the next attempt
+      event.next_attempt_at = new Date(0);
+    }
+
+    expect(event.attempts).toBe(6);
+    expect(event.published_at).toBeUndefined();
+  });
+
+  it('does not pick up events whose backoff has not elapsed', async () => {
+    db.add('a', { next_attempt_at: new Date(Date.now() + 60_000) });
+    db.add('b');
+
+    await expect(relay.relayBatch()).resolves.toBe(0);
+    expect(broker.published).toHaveLength(0);
+  });
+
+  it('purges only events published before the retention window', async () => {
+    db.add('old', { published_at: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+    db.add('recent', { published_at: new Date() });
+    db.add('pending');
+
+    await expect(relay.purgePublished()).resolves.toBe(1);
+    expect(db.rows.map(row => row.id)).toEqual(['recent', 'pending']);
+  });
+});
@@ -0,0 +1,157 @@
+// Outbox Relay Service - publishes committed outbox events to the broker
+
+import { DatabaseConnection, MessageQueueConnection, OutboxEvent } from '../types';
+import { LoggerService } from './loggerService';
+
+export interface OutboxRelayOptions {
+  batchSize?: number;
+  pollIntervalMs?: number;
+  maxBackoffMs?: number;
+  retentionHours?: number;
+}
+
+export class OutboxRelayService {
+  private db: DatabaseConnection;
+  private publisher: MessageQueueConnection;
+  private logger: LoggerService;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private maxBackoffMs: number;
+  private retentionHours: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastPurge = 0;
+
+  constructor(
+    db: DatabaseConnection,
+    publisher: MessageQueueConnection,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.db = db;
+    this.publisher = publisher;
+    this.logger = new LoggerService();
+    this.batchSize = options.batchSize || parseInt(process.env.OUTBOX_BATCH_SIZE || '100');
+    this.pollIntervalMs = options.pollIntervalMs || parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000');
+    this.maxBackoffMs = options.maxBackoffMs || 5 * 60 * 1000;
+    this.retentionHours = options.retentionHours || parseInt(process.env.OUTBOX_RETENTION_HOURS || '72');
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.scheduleNext(0);
+    this.logger.info('Outbox relay started', { pollIntervalMs: this.pollIntervalMs, batchSize: this.batchSize });
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.logger.info('Outbox relay stopped');
+  }
+
+  /**
+   * Publish one batch of due events and return how many were published.
+   * Rows are locked with SKIP LOCKED so several replicas can relay at once.
+   * An event waiting out its backoff holds back everything created after it.
+   */
+  async relayBatch(): Promise<number> {
+    return this.db.transaction(async (client) => {
+      const selectQuery = `
+        SELECT *, next_attempt_at <= NOW() AS due FROM event_outbox
+        WHERE published_at IS NULL
+        ORDER BY created_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED;
+      `;
+
+      const result = await client.query(selectQuery, [this.batchSize]);
+      const events: (OutboxEvent & { due: boolean })[] = result.rows;
+      let published = 0;
+
+      for (const event of events) {
+        if (!event.due) {
+          break;
+        }
+
+        try {
+          await this.publisher.publish(event.exchange, event.routing_key, event.payload, {
+            messageId: event.id,
+            headers: { tenant_id: event.tenant_id }
+          });
+
+          await client.query('UPDATE event_outbox SET published_at = NOW() WHERE id = $1;', [event.id]);
+          published++;
+
+        } catch (error) {
+          const attempts = event.attempts + 1;
+          const backoffMs = Math.min(1000 * 2 ** attempts, this.maxBackoffMs);
+
+          await client.query(`
+            UPDATE event_outbox
+            SET attempts = $2, last_error = $3, next_attempt_at = NOW() + ($4 || ' milliseconds')::interval
+            WHERE id = $1;
+          `, [event.id, attempts, error instanceof Error ? error.message : String(error), backoffMs]);
+
+          this.logger.warn('Outbox event publish failed, will retry', {
+            id: event.id,
+            routingKey: event.routing_key,
+            attempts,
+            backoffMs
+          });
+
+          // Stop here so later events are not delivered ahead of this one
+          break;
+        }
+      }
+
+      return published;
+    });
+  }
+
+  async purgePublished(): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM event_outbox WHERE published_at < NOW() - ($1 || ' hours')::interval;`,
+      [this.retentionHours]
+    );
+    return result.rowCount || 0;
+  }
+
+  private scheduleNext(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    let published = 0;
+
+    try {
+      published = await this.relayBatch();
+
+      if (Date.now() - this.lastPurge > 60 * 60 * 1000) {
+        this.lastPurge = Date.now();
+        const purged = await this.purgePublished();
+        if (purged > 0) {
+          this.logger.info('Purged published outbox events', { purged });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Outbox relay iteration failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    // Drain immediately while full batches keep coming back
+    this.scheduleNext(published === this.batchSize ? 0 : this.pollIntervalMs);
+  }
+}
@@ -0,0 +1,153 @@
+// Retention Service - hard-purges soft-deleted work items after the retention window
+
+import { BlobStorageAdapter, DatabaseConnection, SYSTEM_USER_ID, WorkItemEvent } from '../types';
+import { EventOutboxService } from './eventOutboxService';
+import { LoggerService } from './loggerService';
+import { runAsSystem } from './tenantContext';
+
+export interface RetentionOptions {
+  retentionDays?: number;
+  batchSize?: number;
+  intervalMs?: number;
+}
+
+export class RetentionService {
+  private db: DatabaseConnection;
+  private outbox: EventOutboxService;
+  private storage: BlobStorageAdapter;
+  private logger: LoggerService;
+  private retentionDays: number;
+  private batchSize: number;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    db: DatabaseConnection,
+    outbox: EventOutboxService,
+    storage: BlobStorageAdapter,
+    options: RetentionOptions = {}
+  ) {
+    this.db = db;
+    this.outbox = outbox;
+    this.storage = storage;
+    this.logger = new LoggerService();
+    this.retentionDays = options.retentionDays ?? parseInt(process.env.WORK_ITEM_RETENTION_DAYS || '30');
+    this.batchSize = options.batchSize || parseInt(process.env.RETENTION_BATCH_SIZE || '100');
+    this.intervalMs = options.intervalMs || parseInt(process.env.RETENTION_INTERVAL_MS || String(60 * 60 * 1000));
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.scheduleNext(0);
+    this.logger.info('Retention purge started', { retentionDays: this.retentionDays, intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.logger.info('Retention purge stopped');
+  }
+
+  /**
+   * Hard-delete one batch of work items soft-deleted before the retention
+   * window and return how many were purged. Deleting a row cascades its
+   * edges, history, comments and attachment rows; blobs are removed after
+   * commit, best-effort.
+   */
+  async purgeBatch(): Promise<number> {
+    // Expired rows span every tenant
+    const { purged, uris } = await runAsSystem(() => this.db.transaction(async (client) => {
+      const expired = await client.query<{ id: string }>(`
+        SELECT id FROM work_items
+        WHERE deleted_at < NOW() - ($1 || ' days')::interval
+        ORDER BY deleted_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED;
+      `, [this.retentionDays, this.batchSize]);
+
+      if (expired.rows.length === 0) {
+        return { purged: 0, uris: [] as string[] };
+      }
+
+      const ids = expired.rows.map(row => row.id);
+
+      // Read blob URIs before the attachment rows cascade away
+      const attachments = await client.query<{ uri: string }>(
+        'SELECT uri FROM attachments WHERE work_item_id = ANY($1);',
+        [ids]
+      );
+
+      const result = await client.query(`
+        DELETE FROM work_items
+        WHERE id = ANY($1)
+        RETURNING id, tenant_id, type, deleted_at, deleted_by;
+      `, [ids]);
+
+      for (const row of result.rows) {
+        const event: WorkItemEvent = {
+          type: 'purged',
+          work_item_id: row.id,
+          tenant_id: row.tenant_id,
+          user_id: SYSTEM_USER_ID,
+          data: {
+            type: row.type,
+            deleted_at: row.deleted_at,
+            deleted_by: row.deleted_by
+          },
+          timestamp: new Date()
+        };
+
+        await this.outbox.publishWorkItemEvent(client, event);
+      }
+
+      return { purged: result.rows.length, uris: attachments.rows.map(row => row.uri) };
+    }));
+
+    for (const uri of uris) {
+      await this.storage.delete(uri).catch((error) => {
+        this.logger.warn('Failed to delete attachment blob for purged work item', {
+          uri,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
+
+    return purged;
+  }
+
+  private scheduleNext(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    let purged = 0;
+
+    try {
+      purged = await this.purgeBatch();
+      if (purged > 0) {
+        this.logger.info('Purged deleted work items', { purged, retentionDays: this.retentionDays });
+      }
+    } catch (error) {
+      this.logger.error('Retention purge iteration failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    // Keep draining while full batches come back
+    this.scheduleNext(purged === this.batchSize ? 0 : this.intervalMs);
+  }
+}
@@ -0,0 +1,27 @@
+// Tenant context for row-level security
+//
+// DatabaseService copies the current scope into `app.tenant_id` (or
+// `app.bypass_rls`) at the start of every transaction, and the RLS policies
+// on tenant tables read those settings. Queries issued with no scope see no
+// tenant rows at all.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type TenantScope =
+  | { tenantId: string; system?: false }
+  // Background jobs that legitimately work across tenants (retention, event consumers, migrations)
+  | { tenantId?: undefined; system: true };
+
+const storage = new AsyncLocalStorage<TenantScope>();
+
+export function runWithTenant<T>(tenantId: string, callback: () => T): T {
+  return storage.run({ tenantId }, callback);
+}
+
+export function runAsSystem<T>(callback: () => T): T {
+  return storage.run({ system: true }, callback);
+}
+
+export function getTenantScope(): TenantScope | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,266 @@
+import { WorkItemService } from './workItemService';
+import { DatabaseService } from './databaseService';
+import { EventOutboxService } from './eventOutboxService';
+import { CedarAuthService } from './cedarAuthService';
+import { WorkflowService } from './workflowService';
+import { encodeCursor } from './cursorPagination';
+import { User, WorkItem, WorkItemType } from '../types';
+
+jest.mock('./loggerService');
+
+const user: User = { id: 'user-1', email: 'user@example.com', tenant_id: 'tenant-1', roles: ['Developer'] };
+
+interface ListedRow {
+  id: string;
+  title: string;
+  created_at: string;
+  secret?: boolean;
+}
+
+const row = (n: number, overrides: Partial<ListedRow> = {}): ListedRow => ({
+  id: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+  title: `Item ${n}`,
+  // Item 1 is the newest
+  created_at: `2024-01-${String(20 - n).padStart(2, '0')} 00:00:00+00`,
+  ...overrides
+});
+
+/**
+ * Serves the listing query for the default `-created_at` sort, honouring the
+ * keyset predicate, direction, LIMIT and OFFSET the service passes
+ */
+class FakeListingDatabase {
+  queries: { text: string; params: unknown[] }[] = [];
+
+  constructor(private rows: ListedRow[]) {}
+
+  async query(text: string, params: unknown[]): Promise<{ rows: ListedRow[] }> {
+    this.queries.push({ text, params });
+    const [limit, offset] = params.slice(-2) as number[];
+
+    if (/ORDER BY id LIMIT/.test(text)) {
+      const byId = [...this.rows].sort((a, b) => a.id.localeCompare(b.id));
+      return { rows: byId.slice(offset, offset + limit) };
+    }
+
+    const reverse = text.includes('ORDER BY created_at ASC');
+    let rows = [...this.rows].sort((a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id));
+
+    if (text.includes('::uuid')) {
+      const [createdAt, id] = params.slice(-4, -2) as string[];
+      rows = rows.filter(candidate => {
+        const before = candidate.created_at > createdAt || (candidate.created_at === createdAt && candidate.id < id);
+        const after = candidate.created_at < createdAt || (candidate.created_at === createdAt && candidate.id > id);
+        return reverse ? before : after;
+      });
+    }
+
+    if (reverse) {
+      rows.reverse();
+    }
+
+    return { rows: rows.slice(offset, offset + limit).map(candidate => ({ ...candidate, _sort_0: candidate.created_at })) };
+  }
+}
+
+const createService = (db: FakeListingDatabase) => {
+  const cedarAuth = {
+    canReadWorkItems: async (_: User, items: (WorkItem & { secret?: boolean })[]) => items.map(item => !item.secret)
+  };
+
+  return new WorkItemService(
+    db as unknown as DatabaseService,
+    {} as EventOutboxService,
+    cedarAuth as unknown as CedarAuthService,
+    {} as WorkflowService
+  );
+};
+
+describe('WorkItemService.getWorkItemsWithLineage', () => {
+  describe('pagination', () => {
+    // Seven items, the third unreadable
+    const rows = [1, 2, 3, 4, 5, 6, 7].map(n => row(n, { secret: n === 3 }));
+    let service: WorkItemService;
+
+    const titles = (items: { title: string }[]) => items.map(item => item.title);
+
+    beforeEach(() => {
+      service = createService(new FakeListingDatabase(rows));
+    });
+
+    it('counts only readable items in total', async () => {
+      const result = await service.getWorkItemsWithLineage(user, { limit: 2 });
+
+      expect(titles(result.items)).toEqual(['Item 1', 'Item 2']);
+      expect(result.total).toBe(6);
+      expect(result.has_more).toBe(true);
+      expect(result.next_cursor).not.toBeNull();
+      expect(result.prev_cursor).toBeNull();
+    });
+
+    it('pages forward to the end, skipping unreadable items', async () => {
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+      let hasMore = true;
+
+      while (hasMore) {
+        const result = await service.getWorkItemsWithLineage(user, { limit: 2, cursor });
+        pages.push(titles(result.items));
+        hasMore = result.has_more;
+        cursor = result.next_cursor ?? undefined;
+        expect(result.has_more).toBe(result.next_cursor !== null);
+      }
+
+      expect(pages).toEqual([['Item 1', 'Item 2'], ['Item 4', 'Item 5'], ['Item 6', 'Item 7']]);
+    });
+
+    it('pages backward, reporting has_more for earlier items only', async () => {
+      const last = await service.getWorkItemsWithLineage(user, { limit: 2 })
+        .then(first => service.getWorkItemsWithLineage(user, { limit: 2, cursor: first.next_cursor! }))
+        .then(page => service.getWorkItemsWithLineage(user, { limit: 2, cursor: page.next_cursor! }));
+      expect(titles(last.items)).toEqual(['Item 6', 'Item 7']);
+      expect(last.has_more).toBe(false);
+
+      const middle = await service.getWorkItemsWithLineage(user, { limit: 2, cursor: last.prev_cursor! });
+      expect(titles(middle.items)).toEqual(['Item 4', 'Item 5']);
+      expect(middle.has_more).toBe(true);
+      expect(middle.next_cursor).not.toBeNull();
+
+      const start = await service.getWorkItemsWithLineage(user, { limit: 2, cursor: middle.prev_cursor! });
+      expect(titles(start.items)).toEqual(['Item 1', 'Item 2']);
+      expect(start.has_more).toBe(false);
+      expect(start.prev_cursor).toBeNull();
+      expect(start.next_cursor).not.toBeNull();
+      expect(start.total).toBe(6);
+    });
+
+    it('reports no more items when a backward page is empty', async () => {
+      const cursor = encodeCursor({ sort: '-created_at', values: [row(1).created_at], id: row(1).id, direction: 'prev' });
+
+      const result = await service.getWorkItemsWithLineage(user, { limit: 2, cursor });
+
+      expect(result.items).toEqual([]);
+      expect(result.has_more).toBe(false);
+      expect(result.prev_cursor).toBeNull();
+    });
+
+    it('applies offsets to readable items', async () => {
+      const result = await service.getWorkItemsWithLineage(user, { limit: 2, offset: 2 });
+
+      expect(titles(result.items)).toEqual(['Item 4', 'Item 5']);
+      expect(result.has_more).toBe(true);
+      expect(result.prev_cursor).not.toBeNull();
+    });
+
+    it('caps offsets and points deep paging at cursors', async () => {
+      await expect(service.getWorkItemsWithLineage(user, { offset: 1001 }))
+        .rejects.toThrow('INVALID_PAGINATION: offset must not exceed 1000; use next_cursor to page further');
+    });
+
+    it('rejects a tampered cursor before querying', async () => {
+      const db = new FakeListingDatabase(rows);
+      const cursor = Buffer.from(JSON.stringify({
+        sort: '-created_at', values: ['not a date'], id: row(1).id, direction: 'next'
+      })).toString('base64url');
+
+      await expect(createService(db).getWorkItemsWithLineage(user, { cursor })).rejects.toThrow('INVALID_CURSOR');
+      expect(db.queries).toEqual([]);
+    });
+  });
+
+  describe('query builder', () => {
+    let db: FakeListingDatabase;
+    let service: WorkItemService;
+
+    // The page query, with whitespace collapsed
+    const listing = async (params: Parameters<WorkItemService['getWorkItemsWithLineage']>[1]) => {
+      await service.getWorkItemsWithLineage(user, params);
+      const { text, params: values } = db.queries[0];
+      return { sql: text.replace(/\s+/g, ' '), values };
+    };
+
+    beforeEach(() => {
+      db = new FakeListingDatabase([]);
+      service = createService(db);
+    });
+
+    it('scopes to the tenant, hides deleted and archived items and sorts newest first', async () => {
+      const { sql, values } = await listing({});
+
+      expect(sql).toContain('WHERE wi.tenant_id = $1 AND wi.deleted_at IS NULL AND wi.archived_at IS NULL');
+      expect(sql).toContain('ORDER BY created_at DESC, id ASC LIMIT $2 OFFSET $3');
+      expect(values).toEqual(['tenant-1', 51, 0]);
+    });
+
+    it('matches in lists with ANY', async () => {
+      const { sql, values } = await listing({ type: [WorkItemType.TASK, WorkItemType.SUBTASK], owner_id: ['owner-1'] });
+
+      expect(sql).toContain('wi.type = ANY($2) AND wi.owner_id = ANY($3)');
+      expect(values.slice(1, 3)).toEqual([['task', 'subtask'], ['owner-1']]);
+    });
+
+    it('ignores empty lists', async () => {
+      const { sql } = await listing({ status: [] });
+
+      expect(sql).not.toContain('wi.status');
+    });
+
+    it('bounds date ranges on either side', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+      const to = new Date('2024-02-01T00:00:00Z');
+      const { sql, values } = await listing({ due_at: { from, to }, completed_at: { to } });
+
+      expect(sql).toContain('wi.due_at >= $2 AND wi.due_at <= $3 AND wi.completed_at <= $4');
+      expect(values.slice(1, 4)).toEqual([from, to, to]);
+    });
+
+    it('filters overdue items both ways', async () => {
+      const overdue = "(wi.due_at < NOW() AND wi.status NOT IN ('completed', 'cancelled'))";
+
+      expect((await listing({ overdue: true })).sql).toContain(`AND ${overdue}`);
+
+      db.queries = [];
+      expect((await listing({ overdue: false })).sql).toContain(`AND NOT ${overdue}`);
+    });
+
+    it('matches nested metadata paths as parameters', async () => {
+      const { sql, values } = await listing({ metadata: { 'jira.key': ['HTMA-1', 'HTMA-2'] } });
+
+      expect(sql).toContain('wi.metadata #>> $2 = ANY($3)');
+      expect(values.slice(1, 3)).toEqual([['jira', 'key'], ['HTMA-1', 'HTMA-2']]);
+    });
+
+    it('rejects metadata paths that are not plain keys', async () => {
+      await expect(listing({ metadata: { "key') OR ('1": ['x'] } })).rejects.toThrow('INVALID_METADATA_FILTER');
+    });
+
+    it('includes archived items on request', async () => {
+      const { sql } = await listing({ include_archived: true });
+
+      expect(sql).not.toContain('archived_at IS NULL');
+    });
+
+    it('sorts by several keys with missing dates last', async () => {
+      const { sql } = await listing({ sort: 'priority,-due_at' });
+
+      expect(sql).toContain(
+        "ORDER BY CASE priority WHEN 'critical' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END ASC, " +
+        "COALESCE(due_at, '-infinity'::timestamptz) DESC, id ASC"
+      );
+    });
+
+    it('rejects unsupported sort fields', async () => {
+      await expect(listing({ sort: 'owner_id' })).rejects.toThrow('INVALID_SORT');
+    });
+
+    it('limits parent_id to direct children after the lineage expansion', async () => {
+      const { sql, values } = await listing({ parent_id: 'parent-1' });
+
+      expect(values[1]).toBe('parent-1');
+      expect(sql).toContain('WHERE wi.tenant_id = $1 AND wi.deleted_at IS NULL AND wi.archived_at IS NULL AND le.parent_id = $2');
+      expect(sql).toContain(
+        'FROM lineage_tree wi WHERE wi.tenant_id = $1 AND wi.deleted_at IS NULL AND wi.archived_at IS NULL AND wi.parent_id = $2'
+      );
+    });
+  });
+});
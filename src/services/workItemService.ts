@@ -1,10 +1,14 @@
 // Core Work Item Service with Lineage Enforcement
 
+import { PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { DatabaseService } from './databaseService';
-import { MessageQueueService } from './messageQueueService';
+import { EventOutboxService } from './eventOutboxService';
 import { CedarAuthService } from './cedarAuthService';
+import { WorkflowService } from './workflowService';
 import { LoggerService } from './loggerService';
+import { buildKeyset, decodeCursor, encodeCursor, formatSort, parseSort } from './cursorPagination';
+import { applyJsonPatch, applyMergePatch } from './jsonPatch';
 import {
   WorkItem,
   WorkItemType,
@@ -13,26 +17,63 @@ import {
   UpdateWorkItemRequest,
   WorkItemQueryParams,
   WorkItemWithLineage,
+  WorkItemTreeNode,
+  RedactedWorkItem,
+  AncestorPath,
+  WorkItemAncestry,
+  MoveWorkItemRequest,
+  MoveWorkItemResult,
+  DeleteWorkItemOptions,
+  PreconditionOptions,
+  JsonObject,
+  WorkItemPatch,
+  SubtreeOperationResult,
+  ServiceError,
+  PaginatedResult,
+  DateRange,
   LineageEdge,
+  LineageRelationType,
+  LineageLinkType,
+  WorkItemLineage,
+  CreateLineageLinkRequest,
   LineageValidationResult,
   User,
   WorkItemEvent
 } from '../types';
 
+// Fields a PATCH document may contain; `reason` only accompanies a status change
+const PATCHABLE_FIELDS: (keyof UpdateWorkItemRequest)[] = [
+  'title', 'description', 'status', 'priority', 'owner_id', 'due_at', 'metadata', 'reason'
+];
+
+// Columns a PATCH may change but never remove
+const REQUIRED_FIELDS: (keyof UpdateWorkItemRequest)[] = ['title', 'status', 'priority', 'owner_id'];
+
+// Offsets count readable items, so each skipped item costs an authorization check
+export const MAX_LIST_OFFSET = 1000;
+
+const COUNT_BATCH_SIZE = 500;
+
+// A listed work item with the `_sort_<n>` keyset columns of its query
+type ListedRow = WorkItemWithLineage & Record<`_sort_${number}`, string>;
+
 export class WorkItemService {
   private db: DatabaseService;
-  private messageQueue: MessageQueueService;
+  private outbox: EventOutboxService;
   private cedarAuth: CedarAuthService;
+  private workflow: WorkflowService;
   private logger: LoggerService;
 
   constructor(
     db: DatabaseService,
-    messageQueue: MessageQueueService,
-    cedarAuth: CedarAuthService
+    outbox: EventOutboxService,
+    cedarAuth: CedarAuthService,
+    workflow: WorkflowService
   ) {
     this.db = db;
-    this.messageQueue = messageQueue;
+    this.outbox = outbox;
     this.cedarAuth = cedarAuth;
+    this.workflow = workflow;
     this.logger = new LoggerService();
   }
 
@@ -49,7 +90,10 @@ export class WorkItemService {
       );
 
       if (!lineageCheck.allowed) {
-        throw new Error(`LINEAGE_REQUIRED: ${lineageCheck.reason}`);
+        throw new ServiceError(`LINEAGE_REQUIRED: ${lineageCheck.reason}`, {
+          policy_id: lineageCheck.policy_id,
+          reason: lineageCheck.reason
+        });
       }
 
       // 2. Validate parent exists and user has access
@@ -102,7 +146,7 @@ export class WorkItemService {
       }
 
       // 5. Record status history
-      await this.recordStatusChange(client, workItemId, null, WorkItemStatus.DRAFT, user.id);
+      await this.recordStatusChange(client, user, workItemId, null, WorkItemStatus.DRAFT);
 
       // 6. Publish event
       const event: WorkItemEvent = {
@@ -117,7 +161,7 @@ export class WorkItemService {
         timestamp: now
       };
 
-      await this.messageQueue.publishWorkItemEvent(event);
+      await this.outbox.publishWorkItemEvent(client, event);
 
       this.logger.info('Work item created', {
         workItemId,
@@ -134,188 +178,427 @@ export class WorkItemService {
   async updateWorkItem(
     user: User,
     workItemId: string,
-    data: UpdateWorkItemRequest
+    data: UpdateWorkItemRequest,
+    options: PreconditionOptions = {}
   ): Promise<WorkItem> {
     return this.db.transaction(async (client) => {
-      // 1. Get existing work item
-      const existing = await this.getWorkItemById(user, workItemId);
-      if (!existing) {
+      // 1. Get existing work item, locked so the version check holds until commit
+      if (!(await this.getWorkItemById(user, workItemId))) {
         throw new Error('WORK_ITEM_NOT_FOUND');
       }
+      const existing = await this.lockWorkItem(client, user, workItemId, options.expected_versions);
 
       // 2. Check authorization
-      const canUpdate = await this.cedarAuth.canUpdateWorkItem(user, existing);
-      if (!canUpdate) {
-        throw new Error('INSUFFICIENT_PERMISSIONS');
-      }
+      await this.cedarAuth.authorize(user, 'update', existing);
 
-      // 3. Build update query
-      const updates: string[] = [];
-      const values: any[] = [];
-      let paramIndex = 1;
+      return this.applyUpdate(client, user, existing, data);
+    });
+  }
 
-      if (data.title !== undefined) {
-        updates.push(`title = $${paramIndex++}`);
-        values.push(data.title);
+  /**
+   * Apply a JSON Patch or merge patch to the updatable fields of a work item.
+   * The patch runs against the locked row, so `test` operations and deep
+   * merges into `metadata` see exactly the state they will replace.
+   */
+  async patchWorkItem(
+    user: User,
+    workItemId: string,
+    patch: WorkItemPatch,
+    options: PreconditionOptions = {}
+  ): Promise<WorkItem> {
+    return this.db.transaction(async (client) => {
+      if (!(await this.getWorkItemById(user, workItemId))) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
       }
+      const existing = await this.lockWorkItem(client, user, workItemId, options.expected_versions);
 
-      if (data.description !== undefined) {
-        updates.push(`description = $${paramIndex++}`);
-        values.push(data.description);
-      }
+      const data = this.resolvePatch(existing, patch);
 
-      if (data.status !== undefined) {
-        updates.push(`status = $${paramIndex++}`);
-        values.push(data.status);
-        
-        // Record status change
-        await this.recordStatusChange(client, workItemId, existing.status, data.status, user.id);
-        
-        // Update timestamps based on status
-        if (data.status === WorkItemStatus.IN_PROGRESS && !existing.started_at) {
-          updates.push(`started_at = $${paramIndex++}`);
-          values.push(new Date());
-        }
-        
-        if (data.status === WorkItemStatus.COMPLETED && !existing.completed_at) {
-          updates.push(`completed_at = $${paramIndex++}`);
-          values.push(new Date());
+      await this.cedarAuth.authorize(user, 'update', existing);
+
+      return this.applyUpdate(client, user, existing, data, patch);
+    });
+  }
+
+  async deleteWorkItem(
+    user: User,
+    workItemId: string,
+    options: DeleteWorkItemOptions = {}
+  ): Promise<SubtreeOperationResult> {
+    return this.db.transaction(async (client) => {
+      // 1. Get existing work item, locked so the version check holds until commit
+      if (!(await this.getWorkItemById(user, workItemId))) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+      const existing = await this.lockWorkItem(client, user, workItemId, options.expected_versions);
+
+      // 2. Collect the subtree and check authorization on every node
+      let workItems: WorkItem[] = [existing];
+
+      if (options.cascade) {
+        workItems = await this.getSubtreeForUpdate(client, user, workItemId);
+      } else {
+        // Check for child work items
+        const childrenQuery = `
+          SELECT COUNT(*) as child_count
+          FROM lineage_edges le
+          JOIN work_items c ON c.id = le.child_id AND c.tenant_id = le.tenant_id AND c.deleted_at IS NULL
+          WHERE le.tenant_id = $1 AND le.parent_id = $2 AND le.relation_type = 'contains';
+        `;
+
+        const childrenResult = await client.query(childrenQuery, [user.tenant_id, workItemId]);
+        const childCount = parseInt(childrenResult.rows[0].child_count);
+
+        if (childCount > 0) {
+          throw new Error('CANNOT_DELETE_PARENT: Work item has child items; use cascade=true to delete the subtree');
         }
       }
 
-      if (data.priority !== undefined) {
-        updates.push(`priority = $${paramIndex++}`);
-        values.push(data.priority);
-      }
+      await this.assertCanDeleteAll(user, workItems);
 
-      if (data.owner_id !== undefined) {
-        updates.push(`owner_id = $${paramIndex++}`);
-        values.push(data.owner_id);
-      }
+      const workItemIds = workItems.map(workItem => workItem.id);
 
-      if (data.due_at !== undefined) {
-        updates.push(`due_at = $${paramIndex++}`);
-        values.push(data.due_at);
+      // 3. Soft delete; rows and their history stay until the retention purge
+      const deleteQuery = `
+        UPDATE work_items
+        SET deleted_at = NOW(), deleted_by = $3
+        WHERE id = ANY($1) AND tenant_id = $2;
+      `;
+
+      await client.query(deleteQuery, [workItemIds, user.tenant_id, user.id]);
+
+      // 4. Publish events
+      for (const workItem of workItems) {
+        const event: WorkItemEvent = {
+          type: 'deleted',
+          work_item_id: workItem.id,
+          tenant_id: user.tenant_id,
+          user_id: user.id,
+          data: {
+            work_item: workItem,
+            root_id: workItemId
+          },
+          timestamp: new Date()
+        };
+
+        await this.outbox.publishWorkItemEvent(client, event);
       }
 
-      if (data.metadata !== undefined) {
-        updates.push(`metadata = $${paramIndex++}`);
-        values.push(JSON.stringify(data.metadata));
+      const result: SubtreeOperationResult = {
+        root_id: workItemId,
+        action: 'deleted',
+        work_item_ids: workItemIds,
+        count: workItemIds.length
+      };
+
+      if (options.cascade) {
+        await this.publishSubtreeEvent(client, user, 'subtree_deleted', result);
       }
 
-      if (updates.length === 0) {
-        return existing; // No changes to make
+      this.logger.info('Work item deleted', {
+        workItemId,
+        type: existing.type,
+        cascade: !!options.cascade,
+        count: workItemIds.length,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+
+      return result;
+    });
+  }
+
+  /**
+   * Archive a work item and its whole containment subtree. Archived items
+   * keep their data and lineage but are left out of listings by default.
+   */
+  async archiveWorkItem(user: User, workItemId: string): Promise<SubtreeOperationResult> {
+    return this.db.transaction(async (client) => {
+      const existing = await this.getWorkItemById(user, workItemId);
+      if (!existing) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
       }
 
-      // Add updated_at and where clause
-      updates.push(`updated_at = $${paramIndex++}`);
-      values.push(new Date());
-      values.push(workItemId);
-      values.push(user.tenant_id);
+      const workItems = await this.getSubtreeForUpdate(client, user, workItemId);
+      await this.assertCanDeleteAll(user, workItems);
 
-      const updateQuery = `
-        UPDATE work_items 
-        SET ${updates.join(', ')}
-        WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex}
+      // Items archived earlier keep their original archive stamp
+      const archiveQuery = `
+        UPDATE work_items
+        SET archived_at = NOW(), archived_by = $3, updated_at = NOW()
+        WHERE id = ANY($1) AND tenant_id = $2 AND archived_at IS NULL
         RETURNING *;
       `;
 
-      const result = await client.query(updateQuery, values);
-      const updatedWorkItem = result.rows[0];
+      const archived = await client.query(archiveQuery, [
+        workItems.map(workItem => workItem.id),
+        user.tenant_id,
+        user.id
+      ]);
 
-      // 4. Publish event
-      const event: WorkItemEvent = {
-        type: 'updated',
-        work_item_id: workItemId,
-        tenant_id: user.tenant_id,
-        user_id: user.id,
-        data: {
-          before: existing,
-          after: updatedWorkItem,
-          changes: data
-        },
-        timestamp: new Date()
+      for (const workItem of archived.rows) {
+        const event: WorkItemEvent = {
+          type: 'archived',
+          work_item_id: workItem.id,
+          tenant_id: user.tenant_id,
+          user_id: user.id,
+          data: {
+            work_item: workItem,
+            root_id: workItemId
+          },
+          timestamp: new Date()
+        };
+
+        await this.outbox.publishWorkItemEvent(client, event);
+      }
+
+      const workItemIds: string[] = archived.rows.map((workItem: WorkItem) => workItem.id);
+      const result: SubtreeOperationResult = {
+        root_id: workItemId,
+        action: 'archived',
+        work_item_ids: workItemIds,
+        count: workItemIds.length
       };
 
-      await this.messageQueue.publishWorkItemEvent(event);
+      await this.publishSubtreeEvent(client, user, 'subtree_archived', result);
 
-      this.logger.info('Work item updated', {
+      this.logger.info('Work item subtree archived', {
         workItemId,
-        changes: Object.keys(data),
+        type: existing.type,
+        count: workItemIds.length,
         userId: user.id,
         tenantId: user.tenant_id
       });
 
-      return updatedWorkItem;
+      return result;
     });
   }
 
-  async deleteWorkItem(user: User, workItemId: string): Promise<void> {
+  /**
+   * Restore a soft-deleted work item together with the descendants that
+   * were deleted in the same operation. The parent must be live first.
+   */
+  async restoreWorkItem(user: User, workItemId: string): Promise<SubtreeOperationResult> {
     return this.db.transaction(async (client) => {
-      // 1. Get existing work item
-      const existing = await this.getWorkItemById(user, workItemId);
-      if (!existing) {
+      // 1. Get the deleted work item; deleted_at is read as text to keep microseconds
+      const deletedResult = await client.query(`
+        SELECT *, deleted_at::text as deleted_batch FROM work_items
+        WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NOT NULL
+        FOR UPDATE;
+      `, [workItemId, user.tenant_id]);
+
+      if (deletedResult.rows.length === 0) {
+        throw new Error('WORK_ITEM_NOT_FOUND: No deleted work item with this ID');
+      }
+
+      const { deleted_batch: deletedBatch, ...deleted } = deletedResult.rows[0];
+
+      const canRead = await this.cedarAuth.canReadWorkItem(user, deleted);
+      if (!canRead) {
+        throw new Error('WORK_ITEM_NOT_FOUND: No deleted work item with this ID');
+      }
+
+      // 2. Refuse to restore below a parent that is still deleted
+      const deletedParents = await client.query<{ id: string }>(`
+        SELECT p.id FROM lineage_edges le
+        JOIN work_items p ON p.id = le.parent_id AND p.tenant_id = le.tenant_id
+        WHERE le.tenant_id = $1 AND le.child_id = $2 AND le.relation_type = 'contains'
+        AND p.deleted_at IS NOT NULL;
+      `, [user.tenant_id, workItemId]);
+
+      if (deletedParents.rows.length > 0) {
+        throw new ServiceError(
+          'RESTORE_PARENT_DELETED: Restore the parent work item first',
+          { parent_ids: deletedParents.rows.map(row => row.id) }
+        );
+      }
+
+      // 3. Collect the deletion batch and check authorization on every node
+      const workItems = await this.getSubtreeForUpdate(client, user, workItemId, deletedBatch);
+      await this.assertCanDeleteAll(user, workItems);
+
+      const restored = await client.query(`
+        UPDATE work_items
+        SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+        WHERE id = ANY($1) AND tenant_id = $2
+        RETURNING *;
+      `, [workItems.map(workItem => workItem.id), user.tenant_id]);
+
+      // 4. Publish events
+      for (const workItem of restored.rows) {
+        const event: WorkItemEvent = {
+          type: 'restored',
+          work_item_id: workItem.id,
+          tenant_id: user.tenant_id,
+          user_id: user.id,
+          data: {
+            work_item: workItem,
+            root_id: workItemId
+          },
+          timestamp: new Date()
+        };
+
+        await this.outbox.publishWorkItemEvent(client, event);
+      }
+
+      const workItemIds: string[] = restored.rows.map((workItem: WorkItem) => workItem.id);
+
+      this.logger.info('Work item restored', {
+        workItemId,
+        type: deleted.type,
+        count: workItemIds.length,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+
+      return {
+        root_id: workItemId,
+        action: 'restored',
+        work_item_ids: workItemIds,
+        count: workItemIds.length
+      };
+    });
+  }
+
+  /**
+   * Re-parent a work item by swapping its `contains` edge. Hierarchy rules
+   * are re-validated and lineage management rights are required on both the
+   * old and the new parent.
+   */
+  async moveWorkItem(
+    user: User,
+    workItemId: string,
+    data: MoveWorkItemRequest,
+    options: PreconditionOptions = {}
+  ): Promise<MoveWorkItemResult> {
+    return this.db.transaction(async (client) => {
+      // 1. Get work item, locked so the version check holds until commit, and new parent
+      if (!(await this.getWorkItemById(user, workItemId))) {
         throw new Error('WORK_ITEM_NOT_FOUND');
       }
+      const workItem = await this.lockWorkItem(client, user, workItemId, options.expected_versions);
 
-      // 2. Check authorization
-      const canDelete = await this.cedarAuth.canDeleteWorkItem(user, existing);
-      if (!canDelete) {
-        throw new Error('INSUFFICIENT_PERMISSIONS');
+      const newParent = await this.getWorkItemById(user, data.parent_id);
+      if (!newParent) {
+        throw new Error('PARENT_NOT_FOUND: Specified parent work item does not exist');
+      }
+
+      // 2. Validate parent-child relationship rules
+      const parentChildValidation = this.validateParentChildRelationship(newParent.type, workItem.type);
+      if (!parentChildValidation.valid) {
+        throw new Error(`INVALID_HIERARCHY: ${parentChildValidation.errors.join(', ')}`);
       }
 
-      // 3. Check for child work items
-      const childrenQuery = `
-        SELECT COUNT(*) as child_count
+      // 3. Serialize lineage changes in the tenant while the edge is swapped
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1));', [`lineage_edges:${user.tenant_id}`]);
+
+      const currentEdges = await client.query<LineageEdge & { parent_owner_id: string; parent_type: WorkItemType }>(`
+        SELECT le.*, p.owner_id as parent_owner_id, p.type as parent_type
         FROM lineage_edges le
-        WHERE le.tenant_id = $1 AND le.parent_id = $2;
-      `;
-      
-      const childrenResult = await client.query(childrenQuery, [user.tenant_id, workItemId]);
-      const childCount = parseInt(childrenResult.rows[0].child_count);
+        JOIN work_items p ON p.id = le.parent_id AND p.tenant_id = le.tenant_id
+        WHERE le.tenant_id = $1 AND le.child_id = $2 AND le.relation_type = 'contains'
+        FOR UPDATE OF le;
+      `, [user.tenant_id, workItemId]);
+
+      const previousParentIds = currentEdges.rows.map(edge => edge.parent_id);
+      if (previousParentIds.length === 1 && previousParentIds[0] === newParent.id) {
+        throw new Error('INVALID_MOVE: Work item already belongs to this parent');
+      }
 
-      if (childCount > 0) {
-        throw new Error('CANNOT_DELETE_PARENT: Work item has child items');
+      // 4. Check authorization on the old and new parents
+      for (const edge of currentEdges.rows) {
+        await this.cedarAuth.authorize(user, 'manage_lineage', {
+          id: edge.parent_id,
+          tenant_id: user.tenant_id,
+          type: edge.parent_type,
+          owner_id: edge.parent_owner_id
+        });
       }
 
-      // 4. Delete work item (cascades to lineage_edges, status_history, etc.)
-      const deleteQuery = `
-        DELETE FROM work_items 
-        WHERE id = $1 AND tenant_id = $2;
-      `;
+      await this.cedarAuth.authorize(user, 'manage_lineage', newParent);
+
+      // 5. Prevent cycles: the new parent may not sit below the moved item
+      const cycleCheck = await client.query(`
+        WITH RECURSIVE descendants AS (
+          SELECT child_id FROM lineage_edges
+          WHERE tenant_id = $1 AND parent_id = $2 AND relation_type = 'contains'
+          UNION
+          SELECT le.child_id FROM lineage_edges le
+          JOIN descendants d ON le.parent_id = d.child_id
+          WHERE le.tenant_id = $1 AND le.relation_type = 'contains'
+        )
+        SELECT EXISTS (SELECT 1 FROM descendants WHERE child_id = $3) as has_cycle;
+      `, [user.tenant_id, workItemId, newParent.id]);
+
+      if (newParent.id === workItemId || cycleCheck.rows[0].has_cycle) {
+        throw new Error('LINEAGE_CYCLE: The new parent is a descendant of this work item');
+      }
 
-      await client.query(deleteQuery, [workItemId, user.tenant_id]);
+      // 6. Swap the contains edge
+      await client.query(`
+        DELETE FROM lineage_edges
+        WHERE tenant_id = $1 AND child_id = $2 AND relation_type = 'contains';
+      `, [user.tenant_id, workItemId]);
+
+      const lineageId = uuidv4();
+      await client.query(`
+        INSERT INTO lineage_edges (id, tenant_id, parent_id, child_id, relation_type, created_by)
+        VALUES ($1, $2, $3, $4, 'contains', $5);
+      `, [lineageId, user.tenant_id, newParent.id, workItemId, user.id]);
+
+      // A move is a change to the item: bumping its version makes a second
+      // move sent with the same If-Match fail instead of silently winning
+      const moved = await client.query<WorkItem>(
+        'UPDATE work_items SET updated_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *;',
+        [workItemId, user.tenant_id]
+      );
 
-      // 5. Publish event
-      const event: WorkItemEvent = {
-        type: 'deleted',
-        work_item_id: workItemId,
+      await client.query(`
+        INSERT INTO work_item_changes (tenant_id, work_item_id, change_type, data, changed_by)
+        VALUES ($1, $2, 'lineage', $3, $4);
+      `, [
+        user.tenant_id,
+        workItemId,
+        { action: 'moved', from_parent_ids: previousParentIds, to_parent_id: newParent.id },
+        user.id
+      ]);
+
+      // 7. Publish event
+      await this.outbox.publishLineageEvent(client, {
+        type: 'edge_moved',
+        lineage_id: lineageId,
+        child_id: workItemId,
+        parent_id: newParent.id,
+        previous_parent_ids: previousParentIds,
         tenant_id: user.tenant_id,
         user_id: user.id,
-        data: {
-          work_item: existing
-        },
         timestamp: new Date()
-      };
-
-      await this.messageQueue.publishWorkItemEvent(event);
+      });
 
-      this.logger.info('Work item deleted', {
+      this.logger.info('Work item moved', {
         workItemId,
-        type: existing.type,
+        fromParentIds: previousParentIds,
+        toParentId: newParent.id,
         userId: user.id,
         tenantId: user.tenant_id
       });
+
+      return {
+        work_item: moved.rows[0],
+        lineage_id: lineageId,
+        parent_id: newParent.id,
+        previous_parent_ids: previousParentIds
+      };
     });
   }
 
   async getWorkItemById(user: User, workItemId: string): Promise<WorkItem | null> {
     const query = `
       SELECT * FROM work_items 
-      WHERE id = $1 AND tenant_id = $2;
+      WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL;
     `;
 
-    const result = await this.db.query(query, [workItemId, user.tenant_id]);
+    const result = await this.db.query<WorkItem>(query, [workItemId, user.tenant_id]);
     
     if (result.rows.length === 0) {
       return null;
@@ -332,38 +615,81 @@ export class WorkItemService {
     return workItem;
   }
 
+  /**
+   * Load a work item (soft-deleted included) without an authorization check.
+   * Only for admin tooling such as the authorization explain endpoint.
+   */
+  async findWorkItemUnchecked(tenantId: string, workItemId: string): Promise<WorkItem | null> {
+    const result = await this.db.query<WorkItem>(
+      'SELECT * FROM work_items WHERE id = $1 AND tenant_id = $2;',
+      [workItemId, tenantId]
+    );
+
+    return result.rows[0] || null;
+  }
+
   async getWorkItemsWithLineage(
     user: User,
     params: WorkItemQueryParams = {}
-  ): Promise<WorkItemWithLineage[]> {
-    const conditions: string[] = ['wi.tenant_id = $1'];
-    const values: any[] = [user.tenant_id];
+  ): Promise<PaginatedResult<WorkItemWithLineage>> {
+    // Row filters; they apply to listed items and to the descendants added with them
+    const conditions: string[] = ['wi.tenant_id = $1', 'wi.deleted_at IS NULL'];
+    const values: unknown[] = [user.tenant_id];
     let paramIndex = 2;
+    let parentParam: string | null = null;
 
     // Build query conditions
-    if (params.type) {
-      conditions.push(`wi.type = $${paramIndex++}`);
-      values.push(params.type);
+    const inList = (column: string, list?: string[]) => {
+      if (list && list.length > 0) {
+        conditions.push(`${column} = ANY($${paramIndex++})`);
+        values.push(list);
+      }
+    };
+
+    inList('wi.type', params.type);
+    inList('wi.status', params.status);
+    inList('wi.priority', params.priority);
+    inList('wi.owner_id', params.owner_id);
+    inList('wi.created_by', params.created_by);
+
+    if (params.parent_id) {
+      parentParam = `$${paramIndex++}`;
+      values.push(params.parent_id);
     }
 
-    if (params.status) {
-      conditions.push(`wi.status = $${paramIndex++}`);
-      values.push(params.status);
+    const dateRanges: [string, DateRange | undefined][] = [
+      ['wi.due_at', params.due_at],
+      ['wi.created_at', params.created_at],
+      ['wi.completed_at', params.completed_at]
+    ];
+
+    for (const [column, range] of dateRanges) {
+      if (range?.from) {
+        conditions.push(`${column} >= $${paramIndex++}`);
+        values.push(range.from);
+      }
+      if (range?.to) {
+        conditions.push(`${column} <= $${paramIndex++}`);
+        values.push(range.to);
+      }
     }
 
-    if (params.priority) {
-      conditions.push(`wi.priority = $${paramIndex++}`);
-      values.push(params.priority);
+    if (!params.include_archived) {
+      conditions.push('wi.archived_at IS NULL');
     }
 
-    if (params.owner_id) {
-      conditions.push(`wi.owner_id = $${paramIndex++}`);
-      values.push(params.owner_id);
+    if (params.overdue !== undefined) {
+      const overdue = `(wi.due_at < NOW() AND wi.status NOT IN ('completed', 'cancelled'))`;
+      conditions.push(params.overdue ? overdue : `NOT ${overdue}`);
     }
 
-    if (params.parent_id) {
-      conditions.push(`le.parent_id = $${paramIndex++}`);
-      values.push(params.parent_id);
+    for (const [path, matches] of Object.entries(params.metadata || {})) {
+      const segments = path.split('.');
+      if (segments.some(segment => !/^[A-Za-z0-9_-]+$/.test(segment))) {
+        throw new Error(`INVALID_METADATA_FILTER: ${path}`);
+      }
+      conditions.push(`wi.metadata #>> $${paramIndex++} = ANY($${paramIndex++})`);
+      values.push(segments, matches);
     }
 
     if (params.search) {
@@ -378,7 +704,30 @@ export class WorkItemService {
     const limit = params.limit || 50;
     const offset = params.offset || 0;
 
-    const query = `
+    if (limit < 1 || limit > 500 || offset < 0) {
+      throw new Error('INVALID_PAGINATION: limit must be between 1 and 500 and offset must not be negative');
+    }
+
+    if (offset > MAX_LIST_OFFSET) {
+      throw new Error(`INVALID_PAGINATION: offset must not exceed ${MAX_LIST_OFFSET}; use next_cursor to page further`);
+    }
+
+    const sortKeys = parseSort(params.sort);
+    const cursor = params.cursor ? decodeCursor(params.cursor, sortKeys) : null;
+    const reverse = cursor?.direction === 'prev';
+
+    const filterValues = [...values];
+    const keyset = buildKeyset(sortKeys, cursor, reverse, paramIndex);
+    values.push(...keyset.values);
+    paramIndex += keyset.values.length;
+
+    // parent_id lists direct children only, so it also applies after the
+    // lineage expansion, which would otherwise add the whole subtree
+    const filters = conditions.join(' AND ');
+    const baseFilters = parentParam ? `${filters} AND le.parent_id = ${parentParam}` : filters;
+    const listedFilters = parentParam ? `${filters} AND wi.parent_id = ${parentParam}` : filters;
+
+    const listedQuery = `
       WITH RECURSIVE lineage_tree AS (
         -- Base case: get work items
         SELECT 
@@ -386,8 +735,8 @@ export class WorkItemService {
           le.parent_id,
           0 as depth
         FROM work_items wi
-        LEFT JOIN lineage_edges le ON wi.id = le.child_id AND le.tenant_id = wi.tenant_id
-        WHERE ${conditions.join(' AND ')}
+        LEFT JOIN lineage_edges le ON wi.id = le.child_id AND le.tenant_id = wi.tenant_id AND le.relation_type = 'contains'
+        WHERE ${baseFilters}
         
         UNION ALL
         
@@ -399,54 +748,729 @@ export class WorkItemService {
         FROM work_items p
         JOIN lineage_edges ple ON p.id = ple.child_id
         JOIN lineage_tree lt ON ple.parent_id = lt.id
-        WHERE ple.tenant_id = p.tenant_id AND lt.depth < 10
+        WHERE ple.tenant_id = p.tenant_id AND ple.relation_type = 'contains' AND p.deleted_at IS NULL AND lt.depth < 10
+          ${params.include_archived ? '' : 'AND p.archived_at IS NULL'}
+      ),
+      listed AS (
+        SELECT DISTINCT ON (id) *
+        FROM lineage_tree wi
+        WHERE ${listedFilters}
+        ORDER BY id, depth
       )
-      SELECT DISTINCT ON (id) *
-      FROM lineage_tree
-      ORDER BY id, depth
+    `;
+
+    const query = `
+      ${listedQuery}
+      SELECT listed.*, ${keyset.select}
+      FROM listed
+      ${keyset.where ? `WHERE ${keyset.where}` : ''}
+      ORDER BY ${keyset.orderBy}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1};
     `;
 
-    values.push(limit, offset);
+    // Filter based on read permissions, reading on until the page and one
+    // look-ahead row are filled so has_more stays accurate. Offsets count
+    // readable items only, so unreadable ones never shift or reveal a page.
+    const authorizedItems: ListedRow[] = [];
+    let skip = cursor ? 0 : offset;
+    let batchOffset = 0;
+    let exhausted = false;
+
+    while (authorizedItems.length <= limit && !exhausted) {
+      const batchSize = skip + limit + 1;
+      const result = await this.db.query<ListedRow>(query, [...values, batchSize, batchOffset]);
+
+      const readable = await this.cedarAuth.canReadWorkItems(user, result.rows);
+      result.rows.forEach((item, index) => {
+        if (!readable[index]) {
+          return;
+        }
+        if (skip > 0) {
+          skip--;
+        } else {
+          authorizedItems.push(item);
+        }
+      });
 
-    const result = await this.db.query(query, values);
-    
-    // Filter based on read permissions
-    const authorizedItems: WorkItemWithLineage[] = [];
-    
-    for (const item of result.rows) {
-      const canRead = await this.cedarAuth.canReadWorkItem(user, item);
-      if (canRead) {
-        authorizedItems.push(item);
+      exhausted = result.rows.length < batchSize;
+      batchOffset += result.rows.length;
+    }
+
+    const hasExtra = authorizedItems.length > limit;
+    const page = authorizedItems.slice(0, limit);
+    if (reverse) {
+      page.reverse();
+    }
+
+    const sort = formatSort(sortKeys);
+    const cursorFor = (item: ListedRow, direction: 'next' | 'prev'): string => encodeCursor({
+      sort,
+      values: sortKeys.map((_, index) => item[`_sort_${index}`]),
+      id: item.id,
+      direction
+    });
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    let nextCursor: string | null = null;
+    let prevCursor: string | null = null;
+
+    if (reverse) {
+      // Read backwards from a cursor, so a following page always exists
+      prevCursor = hasExtra && first ? cursorFor(first, 'prev') : null;
+      nextCursor = last ? cursorFor(last, 'next') : null;
+    } else {
+      nextCursor = hasExtra && last ? cursorFor(last, 'next') : null;
+      prevCursor = (cursor || offset > 0) && first ? cursorFor(first, 'prev') : null;
+    }
+
+    const items: WorkItemWithLineage[] = page.map(item => {
+      const workItem = { ...item };
+      sortKeys.forEach((_, index) => delete workItem[`_sort_${index}`]);
+      return workItem;
+    });
+
+    const total = await this.countReadable(
+      user,
+      `${listedQuery} SELECT listed.* FROM listed ORDER BY id LIMIT $${filterValues.length + 1} OFFSET $${filterValues.length + 2};`,
+      filterValues
+    );
+
+    return {
+      items,
+      total,
+      has_more: hasExtra,
+      next_cursor: nextCursor,
+      prev_cursor: prevCursor
+    };
+  }
+
+  /**
+   * Count the rows of a listing the user may read, authorizing them in
+   * batches. The query must take LIMIT and OFFSET as its last two parameters.
+   */
+  private async countReadable(user: User, query: string, values: unknown[]): Promise<number> {
+    let total = 0;
+    let batchOffset = 0;
+
+    for (;;) {
+      const result = await this.db.query<WorkItem>(query, [...values, COUNT_BATCH_SIZE, batchOffset]);
+      const readable = await this.cedarAuth.canReadWorkItems(user, result.rows);
+      total += readable.filter(Boolean).length;
+
+      if (result.rows.length < COUNT_BATCH_SIZE) {
+        return total;
+      }
+      batchOffset += result.rows.length;
+    }
+  }
+
+  /**
+   * Nested descendants of a work item following `contains` edges, up to
+   * `maxDepth` levels below it. Each node is authorized separately; nodes the
+   * user cannot read are redacted but their readable descendants are kept.
+   */
+  async getWorkItemTree(
+    user: User,
+    workItemId: string,
+    maxDepth: number = 4
+  ): Promise<WorkItemWithLineage> {
+    if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > 10) {
+      throw new Error('INVALID_DEPTH: depth must be an integer between 0 and 10');
+    }
+
+    const root = await this.getWorkItemById(user, workItemId);
+    if (!root) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const query = `
+      WITH RECURSIVE descendants AS (
+        SELECT c.*, le.parent_id, 1 as depth, ARRAY[le.parent_id, c.id] as visited
+        FROM lineage_edges le
+        JOIN work_items c ON c.id = le.child_id AND c.tenant_id = le.tenant_id AND c.deleted_at IS NULL
+        WHERE le.tenant_id = $1 AND le.parent_id = $2 AND le.relation_type = 'contains'
+
+        UNION ALL
+
+        SELECT c.*, le.parent_id, d.depth + 1, d.visited || c.id
+        FROM descendants d
+        JOIN lineage_edges le ON le.parent_id = d.id AND le.tenant_id = $1 AND le.relation_type = 'contains'
+        JOIN work_items c ON c.id = le.child_id AND c.tenant_id = le.tenant_id AND c.deleted_at IS NULL
+        WHERE d.depth < $3 AND NOT c.id = ANY(d.visited)
+      )
+      SELECT * FROM descendants
+      ORDER BY depth, created_at;
+    `;
+
+    const result = maxDepth > 0
+      ? await this.db.query<WorkItem & { parent_id: string; depth: number; visited: string[] }>(
+        query,
+        [user.tenant_id, workItemId, maxDepth]
+      )
+      : { rows: [] };
+
+    const rootNode: WorkItemWithLineage = { ...root, depth: 0, children: [] };
+    const nodes = new Map<string, WorkItemTreeNode>([[root.id, rootNode]]);
+    let redacted = 0;
+
+    const readable = await this.cedarAuth.canReadWorkItems(user, result.rows);
+
+    // Rows arrive ordered by depth, so every parent is placed before its children
+    for (const [index, row] of result.rows.entries()) {
+      const parent = nodes.get(row.parent_id);
+      if (!parent || nodes.has(row.id)) {
+        continue;
+      }
+
+      const { visited, parent_id, depth, ...workItem } = row;
+      const canRead = readable[index];
+
+      const node: WorkItemTreeNode = canRead
+        ? { ...workItem, depth, children: [] }
+        : { id: workItem.id, type: workItem.type, redacted: true, depth, children: [] };
+
+      if (!canRead) {
+        redacted++;
+      }
+
+      parent.children!.push(node);
+      nodes.set(node.id, node);
+    }
+
+    this.logger.debug('Work item tree built', {
+      workItemId,
+      maxDepth,
+      nodes: nodes.size,
+      redacted,
+      userId: user.id
+    });
+
+    return rootNode;
+  }
+
+  /**
+   * Ordered `contains` chains from a work item up to its root(s). An item
+   * with several parents yields one path per route to a root.
+   */
+  async getAncestors(user: User, workItemId: string): Promise<WorkItemAncestry> {
+    const maxDepth = 10;
+
+    const workItem = await this.getWorkItemById(user, workItemId);
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    const query = `
+      WITH RECURSIVE ancestors AS (
+        SELECT p.*, le.child_id, 1 as depth, ARRAY[le.child_id, p.id] as visited
+        FROM lineage_edges le
+        JOIN work_items p ON p.id = le.parent_id AND p.tenant_id = le.tenant_id AND p.deleted_at IS NULL
+        WHERE le.tenant_id = $1 AND le.child_id = $2 AND le.relation_type = 'contains'
+
+        UNION ALL
+
+        SELECT p.*, le.child_id, a.depth + 1, a.visited || p.id
+        FROM ancestors a
+        JOIN lineage_edges le ON le.child_id = a.id AND le.tenant_id = $1 AND le.relation_type = 'contains'
+        JOIN work_items p ON p.id = le.parent_id AND p.tenant_id = le.tenant_id AND p.deleted_at IS NULL
+        WHERE a.depth < $3 AND NOT p.id = ANY(a.visited)
+      )
+      SELECT * FROM ancestors
+      ORDER BY depth;
+    `;
+
+    const result = await this.db.query<WorkItem & { child_id: string; depth: number; visited: string[] }>(
+      query,
+      [user.tenant_id, workItemId, maxDepth]
+    );
+
+    const parentsOf = new Map<string, string[]>();
+    const entries = new Map<string, WorkItemWithLineage | RedactedWorkItem>();
+    const depths = new Map<string, number>();
+
+    const readable = await this.cedarAuth.canReadWorkItems(user, result.rows);
+
+    for (const [index, row] of result.rows.entries()) {
+      const { child_id, depth, visited, ...ancestor } = row;
+      parentsOf.set(child_id, [...(parentsOf.get(child_id) || []), ancestor.id]);
+
+      if (!entries.has(ancestor.id)) {
+        entries.set(ancestor.id, readable[index]
+          ? { ...ancestor, depth }
+          : { id: ancestor.id, type: ancestor.type, redacted: true, depth });
+        depths.set(ancestor.id, depth);
       }
     }
 
-    return authorizedItems;
+    const paths: AncestorPath[] = [];
+    const walk = (currentId: string, chain: string[]): void => {
+      const parents = (parentsOf.get(currentId) || []).filter(id => !chain.includes(id));
+
+      if (parents.length === 0) {
+        const root = entries.get(currentId) || workItem;
+        const truncated = (depths.get(currentId) || 0) >= maxDepth;
+        paths.push({
+          ancestors: chain.map(id => entries.get(id)!),
+          root_id: currentId,
+          reaches_objective: root.type === WorkItemType.OBJECTIVE,
+          broken: !truncated && root.type !== WorkItemType.OBJECTIVE,
+          truncated
+        });
+        return;
+      }
+
+      for (const parentId of parents) {
+        walk(parentId, [...chain, parentId]);
+      }
+    };
+
+    walk(workItemId, []);
+
+    return {
+      work_item_id: workItemId,
+      paths,
+      broken: paths.some(path => path.broken)
+    };
   }
 
-  async getLineageForWorkItem(user: User, workItemId: string): Promise<LineageEdge[]> {
+  /**
+   * Lineage edges touching a work item, grouped by relation type so
+   * cross-links are reported apart from the containment tree.
+   */
+  async getLineageForWorkItem(user: User, workItemId: string): Promise<WorkItemLineage> {
     const query = `
       SELECT le.*, 
              p.title as parent_title,
              c.title as child_title
       FROM lineage_edges le
-      JOIN work_items p ON le.parent_id = p.id
-      JOIN work_items c ON le.child_id = c.id
+      JOIN work_items p ON le.parent_id = p.id AND p.tenant_id = le.tenant_id AND p.deleted_at IS NULL
+      JOIN work_items c ON le.child_id = c.id AND c.tenant_id = le.tenant_id AND c.deleted_at IS NULL
       WHERE le.tenant_id = $1 
       AND (le.parent_id = $2 OR le.child_id = $2)
       ORDER BY le.created_at;
     `;
 
-    const result = await this.db.query(query, [user.tenant_id, workItemId]);
+    const result = await this.db.query<LineageEdge>(query, [user.tenant_id, workItemId]);
+
+    const lineage: WorkItemLineage = {
+      [LineageRelationType.CONTAINS]: [],
+      [LineageRelationType.SUPPORTS]: [],
+      [LineageRelationType.DERIVED_FROM]: []
+    };
+
+    for (const edge of result.rows) {
+      lineage[edge.relation_type as LineageRelationType].push(edge);
+    }
+
+    return lineage;
+  }
+
+  /**
+   * Link a work item to another with a `supports` or `derived_from` edge.
+   * These links sit beside the containment tree and never affect it.
+   */
+  async createLineageLink(
+    user: User,
+    workItemId: string,
+    data: CreateLineageLinkRequest
+  ): Promise<LineageEdge> {
+    return this.db.transaction(async (client) => {
+      // 1. Get both work items and check authorization
+      const workItem = await this.getWorkItemById(user, workItemId);
+      if (!workItem) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+
+      const target = await this.getWorkItemById(user, data.target_id);
+      if (!target) {
+        throw new Error('TARGET_NOT_FOUND: Specified target work item does not exist');
+      }
+
+      await this.cedarAuth.authorize(user, 'manage_lineage', workItem);
+
+      // 2. Validate link rules
+      const linkValidation = this.validateLineageLink(data.relation_type, workItem, target);
+      if (!linkValidation.valid) {
+        throw new Error(`INVALID_LINK: ${linkValidation.errors.join(', ')}`);
+      }
+
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1));', [`lineage_edges:${user.tenant_id}`]);
+
+      // lineage_edges allows a single edge of any type per pair
+      const existing = await client.query(`
+        SELECT relation_type FROM lineage_edges
+        WHERE tenant_id = $1
+        AND ((parent_id = $2 AND child_id = $3) OR (parent_id = $3 AND child_id = $2));
+      `, [user.tenant_id, target.id, workItem.id]);
+
+      if (existing.rows.length > 0) {
+        throw new Error(`LINK_EXISTS: Work items are already linked by ${existing.rows[0].relation_type}`);
+      }
+
+      // 3. Derivations must stay acyclic
+      if (data.relation_type === LineageRelationType.DERIVED_FROM) {
+        const cycleCheck = await client.query(`
+          WITH RECURSIVE sources AS (
+            SELECT parent_id FROM lineage_edges
+            WHERE tenant_id = $1 AND child_id = $2 AND relation_type = 'derived_from'
+            UNION
+            SELECT le.parent_id FROM lineage_edges le
+            JOIN sources s ON le.child_id = s.parent_id
+            WHERE le.tenant_id = $1 AND le.relation_type = 'derived_from'
+          )
+          SELECT EXISTS (SELECT 1 FROM sources WHERE parent_id = $3) as has_cycle;
+        `, [user.tenant_id, target.id, workItem.id]);
+
+        if (cycleCheck.rows[0].has_cycle) {
+          throw new Error('LINEAGE_CYCLE: Target is already derived from this work item');
+        }
+      }
+
+      // 4. Create the link
+      const lineageId = await this.createLineageEdge(client, user, target.id, workItem.id, data.relation_type);
+
+      const result = await client.query('SELECT * FROM lineage_edges WHERE id = $1;', [lineageId]);
+      return result.rows[0];
+    });
+  }
+
+  async deleteLineageLink(user: User, workItemId: string, linkId: string): Promise<void> {
+    return this.db.transaction(async (client) => {
+      const workItem = await this.getWorkItemById(user, workItemId);
+      if (!workItem) {
+        throw new Error('WORK_ITEM_NOT_FOUND');
+      }
+
+      await this.cedarAuth.authorize(user, 'manage_lineage', workItem);
+
+      // Containment edges are only changed through create and move
+      const result = await client.query(`
+        DELETE FROM lineage_edges
+        WHERE id = $1 AND tenant_id = $2 AND child_id = $3 AND relation_type <> 'contains'
+        RETURNING *;
+      `, [linkId, user.tenant_id, workItemId]);
+
+      if (result.rows.length === 0) {
+        throw new Error('LINK_NOT_FOUND');
+      }
+
+      const link: LineageEdge = result.rows[0];
+
+      await this.outbox.publishLineageEvent(client, {
+        type: 'edge_deleted',
+        lineage_id: link.id,
+        parent_id: link.parent_id,
+        child_id: link.child_id,
+        relation_type: link.relation_type,
+        tenant_id: user.tenant_id,
+        user_id: user.id,
+        timestamp: new Date()
+      });
+
+      this.logger.info('Lineage link deleted', {
+        lineageId: link.id,
+        relationType: link.relation_type,
+        userId: user.id,
+        tenantId: user.tenant_id
+      });
+    });
+  }
+
+  /**
+   * Lock and return a work item with every descendant along `contains`
+   * edges, deepest first. Only live items are returned unless `deletedAt`
+   * names a deletion batch, in which case only items from that batch are.
+   */
+  private async getSubtreeForUpdate(
+    client: PoolClient,
+    user: User,
+    rootId: string,
+    deletedAt: string | null = null
+  ): Promise<WorkItem[]> {
+    const query = `
+      WITH RECURSIVE subtree AS (
+        SELECT $2::uuid as id, 0 as depth, ARRAY[$2::uuid] as visited
+
+        UNION ALL
+
+        SELECT le.child_id, s.depth + 1, s.visited || le.child_id
+        FROM lineage_edges le
+        JOIN subtree s ON le.parent_id = s.id
+        WHERE le.tenant_id = $1
+        AND le.relation_type = 'contains'
+        AND NOT le.child_id = ANY(s.visited)
+      ),
+      nodes AS (
+        SELECT id, MAX(depth) as depth
+        FROM subtree
+        GROUP BY id
+      )
+      SELECT wi.*
+      FROM work_items wi
+      JOIN nodes n ON n.id = wi.id
+      WHERE wi.tenant_id = $1 AND wi.deleted_at IS NOT DISTINCT FROM $3::timestamptz
+      ORDER BY n.depth DESC, wi.id
+      FOR UPDATE OF wi;
+    `;
+
+    const result = await client.query(query, [user.tenant_id, rootId, deletedAt]);
     return result.rows;
   }
 
+  /**
+   * Write the given fields to a locked, authorized work item and record the
+   * status and field history and the update event. `patch` is the PATCH
+   * document the changes came from, kept alongside them in the history.
+   */
+  private async applyUpdate(
+    client: PoolClient,
+    user: User,
+    existing: WorkItem,
+    data: UpdateWorkItemRequest,
+    patch?: WorkItemPatch
+  ): Promise<WorkItem> {
+    const workItemId = existing.id;
+
+    // Build update query
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (data.title !== undefined) {
+      updates.push(`title = $${paramIndex++}`);
+      values.push(data.title);
+    }
+
+    if (data.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(data.description);
+    }
+
+    if (data.status !== undefined && data.status !== existing.status) {
+      // Enforce the tenant's status workflow
+      this.workflow.validateTransition(user.tenant_id, existing.status, data.status, data.reason);
+
+      updates.push(`status = $${paramIndex++}`);
+      values.push(data.status);
+      
+      // Record status change
+      await this.recordStatusChange(client, user, workItemId, existing.status, data.status, data.reason?.trim());
+      
+      // Update timestamps based on status
+      if (data.status === WorkItemStatus.IN_PROGRESS && !existing.started_at) {
+        updates.push(`started_at = $${paramIndex++}`);
+        values.push(new Date());
+      }
+      
+      if (data.status === WorkItemStatus.COMPLETED && !existing.completed_at) {
+        updates.push(`completed_at = $${paramIndex++}`);
+        values.push(new Date());
+      }
+    }
+
+    if (data.priority !== undefined) {
+      updates.push(`priority = $${paramIndex++}`);
+      values.push(data.priority);
+    }
+
+    if (data.owner_id !== undefined) {
+      updates.push(`owner_id = $${paramIndex++}`);
+      values.push(data.owner_id);
+    }
+
+    if (data.due_at !== undefined) {
+      updates.push(`due_at = $${paramIndex++}`);
+      values.push(data.due_at);
+    }
+
+    if (data.metadata !== undefined) {
+      updates.push(`metadata = $${paramIndex++}`);
+      values.push(JSON.stringify(data.metadata));
+    }
+
+    if (updates.length === 0) {
+      return existing; // No changes to make
+    }
+
+    // Add updated_at and where clause
+    updates.push(`updated_at = $${paramIndex++}`);
+    values.push(new Date());
+    values.push(workItemId);
+    values.push(user.tenant_id);
+
+    const updateQuery = `
+      UPDATE work_items 
+      SET ${updates.join(', ')}
+      WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex}
+      RETURNING *;
+    `;
+
+    const result = await client.query(updateQuery, values);
+    const updatedWorkItem = result.rows[0];
+
+    // Record field edits for the history timeline (status has its own table)
+    await this.recordFieldChanges(client, user, existing, updatedWorkItem, patch);
+
+    // 4. Publish event
+    const event: WorkItemEvent = {
+      type: 'updated',
+      work_item_id: workItemId,
+      tenant_id: user.tenant_id,
+      user_id: user.id,
+      data: {
+        before: existing,
+        after: updatedWorkItem,
+        changes: data,
+        ...(patch && { patch })
+      },
+      timestamp: new Date()
+    };
+
+    await this.outbox.publishWorkItemEvent(client, event);
+
+    this.logger.info('Work item updated', {
+      workItemId,
+      changes: Object.keys(data),
+      userId: user.id,
+      tenantId: user.tenant_id
+    });
+
+    return updatedWorkItem;
+  }
+
+  /**
+   * Run a patch against the patchable view of a work item and return the
+   * fields it changed as an update request.
+   */
+  private resolvePatch(existing: WorkItem, patch: WorkItemPatch): UpdateWorkItemRequest {
+    const document: JsonObject = JSON.parse(JSON.stringify({
+      title: existing.title,
+      description: existing.description ?? null,
+      status: existing.status,
+      priority: existing.priority,
+      owner_id: existing.owner_id,
+      due_at: existing.due_at ?? null,
+      metadata: existing.metadata ?? {}
+    }));
+
+    const patched = patch.format === 'json-patch'
+      ? applyJsonPatch(document, patch.operations)
+      : applyMergePatch(document, patch.document);
+
+    if (patched === null || typeof patched !== 'object' || Array.isArray(patched)) {
+      throw new Error('INVALID_PATCH: The patched work item must be an object');
+    }
+
+    const data: JsonObject = {};
+
+    for (const [field, value] of Object.entries(patched)) {
+      if (!PATCHABLE_FIELDS.includes(field as keyof UpdateWorkItemRequest)) {
+        throw new Error(`INVALID_PATCH: ${field} cannot be patched`);
+      }
+      if (field === 'reason' || JSON.stringify(value) !== JSON.stringify(document[field])) {
+        data[field] = value;
+      }
+    }
+
+    for (const field of Object.keys(document)) {
+      if (patched[field] !== undefined) {
+        continue;
+      }
+      if (REQUIRED_FIELDS.includes(field as keyof UpdateWorkItemRequest)) {
+        throw new Error(`INVALID_PATCH: ${field} cannot be removed`);
+      }
+      // Removing an optional field clears it; metadata is never null
+      const cleared = field === 'metadata' ? {} : null;
+      if (JSON.stringify(cleared) !== JSON.stringify(document[field])) {
+        data[field] = cleared;
+      }
+    }
+
+    return data as UpdateWorkItemRequest;
+  }
+
+  /**
+   * Lock a live work item for the rest of the transaction. When the caller
+   * sent If-Match versions, a mismatch fails with PRECONDITION_FAILED and
+   * carries the current state so clients can offer a merge.
+   */
+  private async lockWorkItem(
+    client: PoolClient,
+    user: User,
+    workItemId: string,
+    expectedVersions?: number[]
+  ): Promise<WorkItem> {
+    const result = await client.query(`
+      SELECT * FROM work_items
+      WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL
+      FOR UPDATE;
+    `, [workItemId, user.tenant_id]);
+
+    const workItem: WorkItem | undefined = result.rows[0];
+    if (!workItem) {
+      throw new Error('WORK_ITEM_NOT_FOUND');
+    }
+
+    if (expectedVersions && !expectedVersions.includes(workItem.version)) {
+      throw new ServiceError(
+        `PRECONDITION_FAILED: Work item ${workItemId} was modified; current version is ${workItem.version}`,
+        { current: workItem }
+      );
+    }
+
+    return workItem;
+  }
+
+  private async assertCanDeleteAll(user: User, workItems: WorkItem[]): Promise<void> {
+    const decisions = await this.cedarAuth.evaluatePolicies(user, 'delete', workItems);
+    const denied = workItems
+      .map((workItem, index) => ({ id: workItem.id, decision: decisions[index] }))
+      .filter(({ decision }) => !decision.allowed);
+
+    if (denied.length > 0) {
+      throw new ServiceError(
+        `INSUFFICIENT_PERMISSIONS: Delete permission denied on ${denied.length} work item(s) in the subtree`,
+        {
+          denied_ids: denied.map(({ id }) => id),
+          denied: denied.map(({ id, decision }) => ({
+            id,
+            policy_id: decision.policy_id,
+            reason: decision.reason
+          }))
+        }
+      );
+    }
+  }
+
+  private async publishSubtreeEvent(
+    client: PoolClient,
+    user: User,
+    type: 'subtree_deleted' | 'subtree_archived',
+    result: SubtreeOperationResult
+  ): Promise<void> {
+    const event: WorkItemEvent = {
+      type,
+      work_item_id: result.root_id,
+      tenant_id: user.tenant_id,
+      user_id: user.id,
+      data: {
+        work_item_ids: result.work_item_ids,
+        count: result.count
+      },
+      timestamp: new Date()
+    };
+
+    await this.outbox.publishWorkItemEvent(client, event);
+  }
+
   private async createLineageEdge(
-    client: any,
+    client: PoolClient,
     user: User,
     parentId: string,
-    childId: string
-  ): Promise<void> {
+    childId: string,
+    relationType: LineageRelationType = LineageRelationType.CONTAINS
+  ): Promise<string> {
     const lineageId = uuidv4();
     
     const query = `
@@ -459,16 +1483,17 @@ export class WorkItemService {
       user.tenant_id,
       parentId,
       childId,
-      'contains',
+      relationType,
       user.id
     ]);
 
     // Publish lineage event
-    await this.messageQueue.publishLineageEvent({
+    await this.outbox.publishLineageEvent(client, {
       type: 'edge_created',
       lineage_id: lineageId,
       parent_id: parentId,
       child_id: childId,
+      relation_type: relationType,
       tenant_id: user.tenant_id,
       user_id: user.id,
       timestamp: new Date()
@@ -478,25 +1503,110 @@ export class WorkItemService {
       lineageId,
       parentId,
       childId,
+      relationType,
       userId: user.id,
       tenantId: user.tenant_id
     });
+
+    return lineageId;
   }
 
   private async recordStatusChange(
-    client: any,
+    client: PoolClient,
+    user: User,
     workItemId: string,
     fromStatus: WorkItemStatus | null,
     toStatus: WorkItemStatus,
-    userId: string,
     reason?: string
   ): Promise<void> {
     const query = `
-      INSERT INTO status_history (work_item_id, from_status, to_status, changed_by, reason)
-      VALUES ($1, $2, $3, $4, $5);
+      INSERT INTO status_history (tenant_id, work_item_id, from_status, to_status, changed_by, reason)
+      VALUES ($1, $2, $3, $4, $5, $6);
     `;
 
-    await client.query(query, [workItemId, fromStatus, toStatus, userId, reason]);
+    await client.query(query, [user.tenant_id, workItemId, fromStatus, toStatus, user.id, reason]);
+  }
+
+  private async recordFieldChanges(
+    client: PoolClient,
+    user: User,
+    before: WorkItem,
+    after: WorkItem,
+    patch?: WorkItemPatch
+  ): Promise<void> {
+    const trackedFields: (keyof WorkItem)[] = ['title', 'description', 'priority', 'owner_id', 'due_at', 'metadata'];
+    const fields: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const field of trackedFields) {
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        fields[field] = { from, to };
+      }
+    }
+
+    // A PATCH is kept even when it only moved status, so the document stays auditable
+    if (Object.keys(fields).length === 0 && !patch) {
+      return;
+    }
+
+    const query = `
+      INSERT INTO work_item_changes (tenant_id, work_item_id, change_type, data, changed_by)
+      VALUES ($1, $2, 'fields', $3, $4);
+    `;
+
+    await client.query(query, [user.tenant_id, before.id, { fields, ...(patch && { patch }) }, user.id]);
+  }
+
+  private validateLineageLink(
+    relationType: LineageLinkType,
+    source: WorkItem,
+    target: WorkItem
+  ): LineageValidationResult {
+    // Source type -> target types it may link to
+    const validLinks: Record<LineageLinkType, Partial<Record<WorkItemType, WorkItemType[]>>> = {
+      [LineageRelationType.SUPPORTS]: {
+        [WorkItemType.STRATEGY]: [WorkItemType.OBJECTIVE],
+        [WorkItemType.INITIATIVE]: [WorkItemType.OBJECTIVE, WorkItemType.STRATEGY]
+      },
+      [LineageRelationType.DERIVED_FROM]: {
+        [WorkItemType.TASK]: [WorkItemType.TASK],
+        [WorkItemType.SUBTASK]: [WorkItemType.SUBTASK]
+      }
+    };
+
+    const rules = validLinks[relationType];
+    if (!rules) {
+      return {
+        valid: false,
+        errors: [`Unsupported link type ${relationType}`],
+        warnings: []
+      };
+    }
+
+    if (source.id === target.id) {
+      return {
+        valid: false,
+        errors: ['A work item cannot link to itself'],
+        warnings: []
+      };
+    }
+
+    const allowedTargets = rules[source.type] || [];
+    if (!allowedTargets.includes(target.type)) {
+      const verb = relationType === LineageRelationType.SUPPORTS ? 'support' : 'be derived from';
+      return {
+        valid: false,
+        errors: [`${source.type} cannot ${verb} ${target.type}`],
+        warnings: []
+      };
+    }
+
+    return {
+      valid: true,
+      errors: [],
+      warnings: []
+    };
   }
 
   private validateParentChildRelationship(
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorkflowService } from './workflowService';
+import { ServiceError, WorkItemStatus } from '../types';
+
+jest.mock('./loggerService');
+
+const tenant = 'tenant-1';
+
+const transitionError = (action: () => void): ServiceError => {
+  try {
+    action();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ServiceError);
+    return error as ServiceError;
+  }
+  throw new Error('Expected the transition to be rejected');
+};
+
+describe('WorkflowService', () => {
+  describe('default workflow', () => {
+    const workflow = new WorkflowService({});
+
+    it('allows the configured transitions', () => {
+      expect(() => workflow.validateTransition(tenant, WorkItemStatus.DRAFT, WorkItemStatus.PLANNED)).not.toThrow();
+      expect(() => workflow.validateTransition(tenant, WorkItemStatus.IN_PROGRESS, WorkItemStatus.REVIEW)).not.toThrow();
+      expect(() => workflow.validateTransition(tenant, WorkItemStatus.REVIEW, WorkItemStatus.COMPLETED)).not.toThrow();
+    });
+
+    it('rejects other transitions with the allowed next states', () => {
+      const error = transitionError(() =>
+        workflow.validateTransition(tenant, WorkItemStatus.DRAFT, WorkItemStatus.COMPLETED));
+
+      expect(error.message).toBe('INVALID_STATUS_TRANSITION: Cannot move from draft to completed');
+      expect(error.details).toEqual({
+        from: WorkItemStatus.DRAFT,
+        to: WorkItemStatus.COMPLETED,
+        allowed_transitions: [WorkItemStatus.PLANNED, WorkItemStatus.IN_PROGRESS, WorkItemStatus.CANCELLED]
+      });
+    });
+
+    it('requires a reason for blocking, cancelling and leaving a closed state', () => {
+      const cases: Array<[WorkItemStatus, WorkItemStatus]> = [
+        [WorkItemStatus.IN_PROGRESS, WorkItemStatus.BLOCKED],
+        [WorkItemStatus.DRAFT, WorkItemStatus.CANCELLED],
+        [WorkItemStatus.COMPLETED, WorkItemStatus.IN_PROGRESS],
+        [WorkItemStatus.CANCELLED, WorkItemStatus.DRAFT]
+      ];
+
+      for (const [from, to] of cases) {
+        const error = transitionError(() => workflow.validateTransition(tenant, from, to, '   '));
+        expect(error.message).toMatch(/^STATUS_REASON_REQUIRED/);
+        expect(error.details).toMatchObject({ from, to });
+
+        expect(() => workflow.validateTransition(tenant, from, to, 'Waiting on vendor')).not.toThrow();
+      }
+    });
+
+    it('does not require a reason elsewhere', () => {
+      expect(workflow.isReasonRequired(tenant, WorkItemStatus.PLANNED, WorkItemStatus.IN_PROGRESS)).toBe(false);
+    });
+  });
+
+  describe('overrides', () => {
+    it('replaces the transitions of overridden statuses only', () => {
+      const workflow = new WorkflowService({
+        default: { transitions: { [WorkItemStatus.DRAFT]: [WorkItemStatus.PLANNED] } }
+      });
+
+      expect(workflow.getAllowedTransitions(tenant, WorkItemStatus.DRAFT)).toEqual([WorkItemStatus.PLANNED]);
+      expect(workflow.getAllowedTransitions(tenant, WorkItemStatus.COMPLETED)).toEqual([WorkItemStatus.IN_PROGRESS]);
+    });
+
+    it('layers tenant overrides on top of the default override', () => {
+      const workflow = new WorkflowService({
+        default: { transitions: { [WorkItemStatus.DRAFT]: [WorkItemStatus.PLANNED] } },
+        tenants: {
+          strict: {
+            transitions: { [WorkItemStatus.REVIEW]: [WorkItemStatus.COMPLETED] },
+            reason_required: ['review->completed']
+          }
+        }
+      });
+
+      expect(workflow.getAllowedTransitions('strict', WorkItemStatus.DRAFT)).toEqual([WorkItemStatus.PLANNED]);
+      expect(workflow.getAllowedTransitions('strict', WorkItemStatus.REVIEW)).toEqual([WorkItemStatus.COMPLETED]);
+      expect(workflow.isReasonRequired('strict', WorkItemStatus.REVIEW, WorkItemStatus.COMPLETED)).toBe(true);
+      expect(workflow.isReasonRequired('strict', WorkItemStatus.DRAFT, WorkItemStatus.CANCELLED)).toBe(false);
+
+      // Other tenants keep the default rules
+      expect(workflow.getAllowedTransitions(tenant, WorkItemStatus.REVIEW)).toContain(WorkItemStatus.IN_PROGRESS);
+      expect(workflow.isReasonRequired(tenant, WorkItemStatus.DRAFT, WorkItemStatus.CANCELLED)).toBe(true);
+    });
+
+    it('rejects unknown statuses', () => {
+      expect(() => new WorkflowService({
+        default: { transitions: { [WorkItemStatus.DRAFT]: ['shipped' as WorkItemStatus] } }
+      })).toThrow('Invalid workflow configuration: unknown status shipped');
+    });
+  });
+
+  describe('WORKFLOW_CONFIG_PATH', () => {
+    let directory: string;
+    const originalPath = process.env.WORKFLOW_CONFIG_PATH;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      if (originalPath === undefined) {
+        delete process.env.WORKFLOW_CONFIG_PATH;
+      } else {
+        process.env.WORKFLOW_CONFIG_PATH = originalPath;
+      }
+    });
+
+    it('is optional', () => {
+      delete process.env.WORKFLOW_CONFIG_PATH;
+
+      expect(WorkflowService.loadConfig()).toEqual({});
+    });
+
+    it('loads overrides from the file', () => {
+      const configPath = path.join(directory, 'workflow.json');
+      fs.writeFileSync(configPath, JSON.stringify({
+        tenants: { 'tenant-1': { transitions: { completed: [] } } }
+      }));
+      process.env.WORKFLOW_CONFIG_PATH = configPath;
+
+      const workflow = new WorkflowService();
+
+      expect(workflow.getAllowedTransitions(tenant, WorkItemStatus.COMPLETED)).toEqual([]);
+      expect(workflow.getAllowedTransitions('tenant-2', WorkItemStatus.COMPLETED)).toEqual([WorkItemStatus.IN_PROGRESS]);
+    });
+
+    it('fails with the path when the file is malformed', () => {
+      const configPath = path.join(directory, 'workflow.json');
+      fs.writeFileSync(configPath, '{ "default": ');
+      process.env.WORKFLOW_CONFIG_PATH = configPath;
+
+      expect(() => new WorkflowService()).toThrow(`Invalid workflow configuration: cannot read ${configPath}`);
+    });
+
+    it('fails with the path when the file is missing', () => {
+      const configPath = path.join(directory, 'missing.json');
+      process.env.WORKFLOW_CONFIG_PATH = configPath;
+
+      expect(() => WorkflowService.loadConfig()).toThrow(`cannot read ${configPath}`);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// Workflow Service for Status Transition Enforcement
+
+import fs from 'fs';
+import { LoggerService } from './loggerService';
+import {
+  ServiceError,
+  WorkflowConfig,
+  WorkflowDefinition,
+  WorkflowOverride,
+  WorkItemStatus
+} from '../types';
+
+const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  transitions: {
+    [WorkItemStatus.DRAFT]: [WorkItemStatus.PLANNED, WorkItemStatus.IN_PROGRESS, WorkItemStatus.CANCELLED],
+    [WorkItemStatus.PLANNED]: [WorkItemStatus.DRAFT, WorkItemStatus.IN_PROGRESS, WorkItemStatus.BLOCKED, WorkItemStatus.CANCELLED],
+    [WorkItemStatus.IN_PROGRESS]: [WorkItemStatus.BLOCKED, WorkItemStatus.REVIEW, WorkItemStatus.COMPLETED, WorkItemStatus.CANCELLED],
+    [WorkItemStatus.BLOCKED]: [WorkItemStatus.PLANNED, WorkItemStatus.IN_PROGRESS, WorkItemStatus.CANCELLED],
+    [WorkItemStatus.REVIEW]: [WorkItemStatus.IN_PROGRESS, WorkItemStatus.BLOCKED, WorkItemStatus.COMPLETED, WorkItemStatus.CANCELLED],
+    [WorkItemStatus.COMPLETED]: [WorkItemStatus.IN_PROGRESS],
+    [WorkItemStatus.CANCELLED]: [WorkItemStatus.DRAFT]
+  },
+  reason_required: [
+    '*->blocked',
+    '*->cancelled',
+    'completed->*',
+    'cancelled->*'
+  ]
+};
+
+export class WorkflowService {
+  private logger: LoggerService;
+  private defaultWorkflow: WorkflowDefinition;
+  private tenantWorkflows: Map<string, WorkflowDefinition>;
+
+  constructor(config: WorkflowConfig = WorkflowService.loadConfig()) {
+    this.logger = new LoggerService();
+    this.defaultWorkflow = this.mergeDefinition(DEFAULT_WORKFLOW, config.default);
+    this.tenantWorkflows = new Map();
+
+    for (const [tenantId, override] of Object.entries(config.tenants || {})) {
+      this.tenantWorkflows.set(tenantId, this.mergeDefinition(this.defaultWorkflow, override));
+    }
+  }
+
+  /**
+   * Read workflow overrides from WORKFLOW_CONFIG_PATH, if configured
+   */
+  static loadConfig(): WorkflowConfig {
+    const configPath = process.env.WORKFLOW_CONFIG_PATH;
+    if (!configPath) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(configPath, 'utf8')) as WorkflowConfig;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid workflow configuration: cannot read ${configPath}: ${message}`);
+    }
+  }
+
+  getWorkflow(tenantId: string): WorkflowDefinition {
+    return this.tenantWorkflows.get(tenantId) || this.defaultWorkflow;
+  }
+
+  getAllowedTransitions(tenantId: string, from: WorkItemStatus): WorkItemStatus[] {
+    return this.getWorkflow(tenantId).transitions[from] || [];
+  }
+
+  isReasonRequired(tenantId: string, from: WorkItemStatus, to: WorkItemStatus): boolean {
+    return this.getWorkflow(tenantId).reason_required.some(pattern => {
+      const [patternFrom, patternTo] = pattern.split('->').map(part => part.trim());
+      return (patternFrom === '*' || patternFrom === from) && (patternTo === '*' || patternTo === to);
+    });
+  }
+
+  /**
+   * Throw a ServiceError describing the allowed next states when the
+   * transition is not permitted for the tenant's workflow
+   */
+  validateTransition(
+    tenantId: string,
+    from: WorkItemStatus,
+    to: WorkItemStatus,
+    reason?: string
+  ): void {
+    const allowed = this.getAllowedTransitions(tenantId, from);
+
+    if (!allowed.includes(to)) {
+      throw new ServiceError(`INVALID_STATUS_TRANSITION: Cannot move from ${from} to ${to}`, {
+        from,
+        to,
+        allowed_transitions: allowed
+      });
+    }
+
+    if (this.isReasonRequired(tenantId, from, to) && !reason?.trim()) {
+      throw new ServiceError(`STATUS_REASON_REQUIRED: A reason is required to move from ${from} to ${to}`, {
+        from,
+        to,
+        allowed_transitions: allowed
+      });
+    }
+  }
+
+  private mergeDefinition(
+    base: WorkflowDefinition,
+    override?: WorkflowOverride
+  ): WorkflowDefinition {
+    const statuses = Object.values(WorkItemStatus) as string[];
+    const transitions = { ...base.transitions };
+
+    for (const [from, targets] of Object.entries(override?.transitions || {})) {
+      const invalid = [from, ...targets].filter(status => !statuses.includes(status));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid workflow configuration: unknown status ${invalid.join(', ')}`);
+      }
+      transitions[from as WorkItemStatus] = targets;
+    }
+
+    if (override) {
+      this.logger.debug('Workflow override applied', {
+        overriddenStatuses: Object.keys(override.transitions || {}),
+        reasonRules: override.reason_required?.length
+      });
+    }
+
+    return {
+      transitions,
+      reason_required: override?.reason_required || base.reason_required
+    };
+  }
+}
@@ -1,5 +1,10 @@
 // Work Item Service Types
 
+import { PoolClient, QueryResult, QueryResultRow } from 'pg';
+
+// Actor recorded for changes made by the service itself rather than a user
+export const SYSTEM_USER_ID = '00000000-0000-0000-0000-000000000000';
+
 export interface WorkItem {
   id: string;
   tenant_id: string;
@@ -15,7 +20,13 @@ export interface WorkItem {
   completed_at?: Date;
   created_at: Date;
   updated_at: Date;
-  metadata?: Record<string, any>;
+  archived_at?: Date;
+  archived_by?: string;
+  deleted_at?: Date;
+  deleted_by?: string;
+  metadata?: Record<string, unknown>;
+  // Incremented on every update; exposed as the ETag
+  version: number;
 }
 
 export enum WorkItemType {
@@ -59,6 +70,77 @@ export enum LineageRelationType {
   DERIVED_FROM = 'derived_from'
 }
 
+// Non-hierarchical links; `child_id` is the linking item, `parent_id` the item it supports or derives from
+export type LineageLinkType = LineageRelationType.SUPPORTS | LineageRelationType.DERIVED_FROM;
+
+export type WorkItemLineage = Record<LineageRelationType, LineageEdge[]>;
+
+export interface DependencyEdge {
+  id: string;
+  tenant_id: string;
+  from_id: string;
+  to_id: string;
+  dependency_type: DependencyType;
+  lag_days: number;
+  created_at: Date;
+  created_by: string;
+  updated_at: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export enum DependencyType {
+  FINISH_TO_START = 'finish_to_start',
+  START_TO_START = 'start_to_start',
+  FINISH_TO_FINISH = 'finish_to_finish',
+  START_TO_FINISH = 'start_to_finish'
+}
+
+export interface Comment {
+  id: string;
+  tenant_id: string;
+  work_item_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Attachment {
+  id: string;
+  tenant_id: string;
+  work_item_id: string;
+  filename: string;
+  uri: string;
+  size_bytes: number;
+  mime_type: string;
+  checksum: string;
+  uploaded_by: string;
+  uploaded_at: Date;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export enum TimelineEntryType {
+  STATUS_CHANGE = 'status_change',
+  FIELD_CHANGE = 'field_change',
+  LINEAGE_CHANGE = 'lineage_change',
+  COMMENT = 'comment'
+}
+
+export interface TimelineEntry {
+  entry_type: TimelineEntryType;
+  id: string;
+  occurred_at: Date;
+  actor_id: string;
+  data: Record<string, unknown>;
+}
+
 export interface CreateWorkItemRequest {
   type: WorkItemType;
   title: string;
@@ -67,7 +149,7 @@ export interface CreateWorkItemRequest {
   owner_id?: string;
   due_at?: Date;
   parent_id?: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
 }
 
 export interface UpdateWorkItemRequest {
@@ -77,44 +159,281 @@ export interface UpdateWorkItemRequest {
   priority?: WorkItemPriority;
   owner_id?: string;
   due_at?: Date;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
+  reason?: string;
+}
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+
+export interface JsonObject {
+  [key: string]: JsonValue;
+}
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: JsonValue }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; path: string; from: string };
+
+// PATCH bodies: RFC 6902 JSON Patch or RFC 7396 merge patch over UpdateWorkItemRequest fields
+export type WorkItemPatch =
+  | { format: 'json-patch'; operations: JsonPatchOperation[] }
+  | { format: 'merge-patch'; document: JsonObject };
+
+export interface MoveWorkItemRequest {
+  parent_id: string;
+}
+
+export interface MoveWorkItemResult {
+  work_item: WorkItem;
+  lineage_id: string;
+  parent_id: string;
+  previous_parent_ids: string[];
+}
+
+export interface PreconditionOptions {
+  // Versions from the caller's If-Match; the write fails unless the current version is one of them
+  expected_versions?: number[];
+}
+
+export interface DeleteWorkItemOptions extends PreconditionOptions {
+  cascade?: boolean;
+}
+
+export interface SubtreeOperationResult {
+  root_id: string;
+  action: 'deleted' | 'archived' | 'restored';
+  work_item_ids: string[];
+  count: number;
+}
+
+export enum BulkMode {
+  ATOMIC = 'atomic',
+  BEST_EFFORT = 'best_effort'
+}
+
+// `temp_id` names an item created earlier in the batch; later operations may
+// use it wherever a work item ID is expected (`id`, `data.parent_id`)
+export type BulkOperation =
+  | { op: 'create'; temp_id?: string; data: CreateWorkItemRequest }
+  | { op: 'update'; id: string; data: UpdateWorkItemRequest }
+  | { op: 'delete'; id: string; cascade?: boolean };
+
+export interface BulkRequest {
+  mode?: BulkMode;
+  operations: BulkOperation[];
+}
+
+export interface BulkOperationError {
+  code?: string;
+  status_code?: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface BulkOperationResult {
+  index: number;
+  op: BulkOperation['op'];
+  status: 'succeeded' | 'failed' | 'rolled_back' | 'skipped';
+  id?: string;
+  temp_id?: string;
+  data?: WorkItem | SubtreeOperationResult;
+  error?: BulkOperationError;
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  results: BulkOperationResult[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface CreateLineageLinkRequest {
+  target_id: string;
+  relation_type: LineageLinkType;
+}
+
+export interface CreateDependencyRequest {
+  to_id: string;
+  dependency_type?: DependencyType;
+  lag_days?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreateCommentRequest {
+  body: string;
+}
+
+export interface UpdateCommentRequest {
+  body: string;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
 }
 
 export interface WorkItemQueryParams {
-  type?: WorkItemType;
-  status?: WorkItemStatus;
-  priority?: WorkItemPriority;
-  owner_id?: string;
+  type?: WorkItemType[];
+  status?: WorkItemStatus[];
+  priority?: WorkItemPriority[];
+  owner_id?: string[];
+  created_by?: string[];
   parent_id?: string;
   search?: string;
+  due_at?: DateRange;
+  created_at?: DateRange;
+  completed_at?: DateRange;
+  overdue?: boolean;
+  include_archived?: boolean;
+  // Keyed by dot-separated path below `metadata`, matched as text
+  metadata?: Record<string, string[]>;
+  sort?: string;
+  cursor?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  // Matching items the caller can read, across every page
+  total: number;
+  // Whether more items follow this page in the direction it was read
+  has_more: boolean;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+export interface HistoryQueryParams {
+  types?: TimelineEntryType[];
   limit?: number;
   offset?: number;
 }
 
 export interface WorkItemWithLineage extends WorkItem {
   parent?: WorkItem;
-  children?: WorkItem[];
+  children?: WorkItemTreeNode[];
   depth?: number;
 }
 
+// Placeholder for a node the caller may not read, so the tree stays connected
+export interface RedactedWorkItem {
+  id: string;
+  type: WorkItemType;
+  redacted: true;
+  depth: number;
+  children?: WorkItemTreeNode[];
+}
+
+export type WorkItemTreeNode = WorkItemWithLineage | RedactedWorkItem;
+
+export interface AncestorPath {
+  // Nearest parent first, root last
+  ancestors: (WorkItemWithLineage | RedactedWorkItem)[];
+  root_id: string;
+  reaches_objective: boolean;
+  // Root is a parentless non-objective (CEO/President exemption)
+  broken: boolean;
+  truncated: boolean;
+}
+
+export interface WorkItemAncestry {
+  work_item_id: string;
+  paths: AncestorPath[];
+  broken: boolean;
+}
+
+export interface WorkflowDefinition {
+  transitions: Record<WorkItemStatus, WorkItemStatus[]>;
+  // "from->to" patterns, either side may be "*"
+  reason_required: string[];
+}
+
+// Overrides replace the transitions of the statuses they list
+export interface WorkflowOverride {
+  transitions?: Partial<Record<WorkItemStatus, WorkItemStatus[]>>;
+  reason_required?: string[];
+}
+
+export interface WorkflowConfig {
+  default?: WorkflowOverride;
+  tenants?: Record<string, WorkflowOverride>;
+}
+
 export interface LineageValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
 }
 
+export type PrincipalType = 'user' | 'service';
+
 export interface User {
   id: string;
   email: string;
   tenant_id: string;
   roles: string[];
+  // Machine principals (API keys, client-credential tokens); absent means 'user'
+  principal_type?: PrincipalType;
+  scopes?: string[];
+}
+
+// Set by the authentication middleware on every authenticated request
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: User;
+  }
+}
+
+export const API_KEY_SCOPES = ['work_items:read', 'work_items:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ServiceApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_by: string;
+  created_at: Date;
+  expires_at?: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_by?: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_at?: Date;
+}
+
+export interface CreatedApiKey extends ServiceApiKey {
+  // Plaintext key; returned once at creation and never stored
+  key: string;
+}
+
+// The parts of a resource a decision reads; stored work items qualify as they are
+export interface AuthorizationResource {
+  id?: string;
+  type?: string;
+  tenant_id?: string;
+  owner_id?: string;
+  updated_at?: Date;
 }
 
 export interface CedarEvaluationRequest {
   principal: {
     id: string;
+    type: 'User' | 'Service';
     tenant_id: string;
     roles: string[];
+    scopes?: string[];
   };
   action: {
     type: string;
@@ -126,14 +445,38 @@ export interface CedarEvaluationRequest {
     tenant_id: string;
     owner_id?: string;
   };
-  context?: Record<string, any>;
+  context?: Record<string, unknown>;
 }
 
 export interface CedarEvaluationResponse {
   allowed: boolean;
   policy_id: string;
   reason: string;
-  context?: Record<string, any>;
+  context?: Record<string, unknown>;
+}
+
+export interface AuthorizationExplanation {
+  request: CedarEvaluationRequest;
+  decision: CedarEvaluationResponse;
+  allowed: boolean;
+  policy_id: string;
+  reason: string;
+  fallback: boolean;
+  mode: string;
+  failure_mode: string;
+}
+
+export interface ExplainAuthorizationRequest {
+  action: string;
+  work_item_id: string;
+  // Defaults to the caller; always evaluated inside the caller's tenant
+  principal?: {
+    id: string;
+    type?: PrincipalType;
+    roles: string[];
+    scopes?: string[];
+  };
+  context?: Record<string, unknown>;
 }
 
 export interface WorkItemEvent {
@@ -141,16 +484,121 @@ export interface WorkItemEvent {
   work_item_id: string;
   tenant_id: string;
   user_id: string;
-  data: Record<string, any>;
+  data: Record<string, unknown>;
+  timestamp: Date;
+}
+
+// Lineage, dependency and comment events; fields beyond these vary by type
+export interface DomainEvent {
+  type: string;
+  tenant_id: string;
+  user_id: string;
   timestamp: Date;
+  [field: string]: unknown;
 }
 
 export interface DatabaseConnection {
-  query: (text: string, params?: any[]) => Promise<any>;
-  transaction: <T>(callback: (client: any) => Promise<T>) => Promise<T>;
+  query: <R extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]) => Promise<QueryResult<R>>;
+  transaction: <T>(callback: (client: PoolClient) => Promise<T>) => Promise<T>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (client: PoolClient) => Promise<void>;
+  down: (client: PoolClient) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: Date;
+  // Applied to the database but unknown to this build (e.g. after a rollback of the code)
+  unknown?: boolean;
+}
+
+export interface BlobStorageAdapter {
+  put: (key: string, data: Buffer, mimeType: string) => Promise<string>;
+  get: (uri: string) => Promise<NodeJS.ReadableStream>;
+  delete: (uri: string) => Promise<void>;
+}
+
+export interface PublishOptions {
+  messageId?: string;
+  headers?: Record<string, unknown>;
 }
 
+export interface SubscribeOptions {
+  exchange?: string;
+  routingKeys?: string[];
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface MessageMetadata {
+  messageId?: string;
+  routingKey: string;
+  headers: Record<string, unknown>;
+  attempt: number;
+}
+
+export type MessageHandler = (message: unknown, metadata: MessageMetadata) => Promise<void> | void;
+
 export interface MessageQueueConnection {
-  publish: (exchange: string, routingKey: string, message: any) => Promise<void>;
-  subscribe: (queue: string, callback: (message: any) => void) => Promise<void>;
+  connect: () => Promise<void>;
+  publish: (exchange: string, routingKey: string, message: unknown, options?: PublishOptions) => Promise<void>;
+  subscribe: (queue: string, callback: MessageHandler, options?: SubscribeOptions) => Promise<void>;
+  // Stop consuming from the queue; messages already being handled finish normally
+  unsubscribe: (queue: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface EventHandler {
+  name: string;
+  exchange: string;
+  routingKey: string;
+  // May return work to run once the handler's transaction has committed
+  handle: (client: PoolClient, event: unknown, metadata: MessageMetadata) => Promise<void | AfterCommit>;
+}
+
+export type AfterCommit = () => Promise<void>;
+
+export interface OutboxEvent {
+  id: string;
+  tenant_id: string;
+  exchange: string;
+  routing_key: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  last_error?: string;
+  created_at: Date;
+  next_attempt_at: Date;
+  published_at?: Date;
+}
+
+// Errors raised for clients lead with an upper-case code: `NOT_FOUND`, `INVALID_PATCH: ...`
+const ERROR_CODE_PATTERN = /^([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*)(?::|$)/;
+
+export class ServiceError extends Error {
+  readonly code?: string;
+  details: Record<string, unknown>;
+
+  constructor(message: string, details: Record<string, unknown>) {
+    super(message);
+    this.name = 'ServiceError';
+    this.code = ERROR_CODE_PATTERN.exec(message)?.[1];
+    this.details = details;
+  }
+}
+
+/**
+ * The code an error leads with, if any. Only the leading token counts, so
+ * text later in a message (field names, JSON pointers) never changes it.
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (error instanceof ServiceError) {
+    return error.code;
+  }
+  return error instanceof Error ? ERROR_CODE_PATTERN.exec(error.message)?.[1] : undefined;
 }